@@ -0,0 +1,93 @@
+// src/breaks.ts
+// Break strategies and meal times: how a day's work is cut into focus
+// sessions with breaks between them, and when meals are. The local scheduler
+// expands them into blocks; the AI prompt describes them.
+import type { BREAK_STYLES } from "./enums";
+import { toMinutes } from "./time";
+
+export type BreakStyle = (typeof BREAK_STYLES)[number];
+
+export interface BreakStrategy {
+  style: BreakStyle;
+  label: string;
+  workMinutes: number; // longest stretch of work before a break
+  breakMinutes: number;
+  longBreakMinutes: number | null; // replaces every `longBreakEvery`th break
+  longBreakEvery: number | null;
+}
+
+export interface Meal {
+  name: string;
+  time: string; // "HH:MM"
+  duration: number; // minutes
+}
+
+// The named strategies; "custom" takes its lengths from the preferences
+const STRATEGIES: Record<Exclude<BreakStyle, "custom">, Omit<BreakStrategy, "style">> = {
+  pomodoro: { label: "Pomodoro", workMinutes: 25, breakMinutes: 5, longBreakMinutes: 15, longBreakEvery: 4 },
+  "52-17": { label: "52/17", workMinutes: 52, breakMinutes: 17, longBreakMinutes: null, longBreakEvery: null },
+  ultradian: { label: "Ultradian", workMinutes: 90, breakMinutes: 20, longBreakMinutes: null, longBreakEvery: null },
+};
+
+// Limits for the custom strategy; shorter sessions would split the day into crumbs
+export const CUSTOM_WORK_MINUTES = { min: 10, max: 240 };
+export const CUSTOM_BREAK_MINUTES = { min: 1, max: 60 };
+
+// What preferences saved before strategies existed amount to
+const DEFAULT_WORK_MINUTES = 60;
+const DEFAULT_BREAK_MINUTES = 15;
+
+// Used when the user hasn't chosen their own
+export const DEFAULT_MEALS: Meal[] = [
+  { name: "Lunch", time: "12:30", duration: 45 },
+  { name: "Dinner", time: "19:00", duration: 45 },
+];
+
+/**
+ * The strategy in a preferences row: its `break_style`, with
+ * `break_interval_minutes` and `break_minutes` as the lengths of a custom one.
+ * Anything unrecognized is treated as custom.
+ */
+export function breakStrategyFor(prefs: any): BreakStrategy {
+  const style = prefs?.break_style as BreakStyle;
+  if (Object.hasOwn(STRATEGIES, style)) {
+    return { style, ...STRATEGIES[style as keyof typeof STRATEGIES] };
+  }
+  const clamp = (value: unknown, fallback: number, { min, max }: { min: number; max: number }) =>
+    Math.min(Math.max(Math.round(Number(value) || fallback), min), max);
+  return {
+    style: "custom",
+    label: "Custom",
+    workMinutes: clamp(prefs?.break_interval_minutes, DEFAULT_WORK_MINUTES, CUSTOM_WORK_MINUTES),
+    breakMinutes: clamp(prefs?.break_minutes, DEFAULT_BREAK_MINUTES, CUSTOM_BREAK_MINUTES),
+    longBreakMinutes: null,
+    longBreakEvery: null,
+  };
+}
+
+// One sentence for summaries and the AI prompt
+export function describeBreakStrategy(strategy: BreakStrategy): string {
+  let text = `${strategy.label}: work at most ${strategy.workMinutes} minutes at a stretch, then take a ${strategy.breakMinutes} minute break`;
+  if (strategy.longBreakEvery && strategy.longBreakMinutes) {
+    text += `; every ${strategy.longBreakEvery}th break is ${strategy.longBreakMinutes} minutes`;
+  }
+  return text;
+}
+
+// The meals in a preferences row, in time order; null means the defaults
+export function mealsFor(prefs: any): Meal[] {
+  const meals: Meal[] = Array.isArray(prefs?.meals) ? prefs.meals : DEFAULT_MEALS;
+  return [...meals].sort((a, b) => toMinutes(a.time, "00:00") - toMinutes(b.time, "00:00"));
+}
+
+// Helper: the first pair of meals that overlap, as an error message, or null
+export function mealOverlap(meals: Meal[]): string | null {
+  const sorted = mealsFor({ meals });
+  for (let i = 1; i < sorted.length; i++) {
+    const previousEnd = toMinutes(sorted[i - 1].time, "00:00") + sorted[i - 1].duration;
+    if (toMinutes(sorted[i].time, "00:00") < previousEnd) {
+      return `${sorted[i].name} at ${sorted[i].time} overlaps ${sorted[i - 1].name}`;
+    }
+  }
+  return null;
+}
@@ -0,0 +1,90 @@
+// src/cache.ts
+// Read-through cache for third-party lookups (weather, forecast, APOD), so
+// repeated requests don't hit upstream APIs and an upstream outage can be
+// bridged with the last good answer
+import type { Queryable } from "./db";
+
+export interface CacheEntry {
+  value: unknown;
+  fetchedAt: Date;
+}
+
+export interface CacheStore {
+  get(key: string): Promise<CacheEntry | null>;
+  set(key: string, value: unknown, fetchedAt: Date): Promise<void>;
+}
+
+// How a cached() answer was produced, reported to clients with the data
+export interface CacheInfo {
+  hit: boolean; // served from the cache without calling upstream
+  stale: boolean; // older than its TTL, served because upstream failed
+  ageSeconds: number;
+  fetchedAt: string;
+}
+
+/**
+ * Return the value cached under `key` while it is younger than `ttlSeconds`;
+ * otherwise call `load` and cache its result. When `load` fails and an older
+ * value exists, that value is served as stale instead of failing. Cache read
+ * and write errors are logged and treated as a miss.
+ */
+export async function cached<T>(
+  store: CacheStore,
+  key: string,
+  ttlSeconds: number,
+  load: () => Promise<T>,
+  now = new Date()
+): Promise<{ data: T; cache: CacheInfo }> {
+  let entry: CacheEntry | null = null;
+  try {
+    entry = await store.get(key);
+  } catch (err) {
+    console.error(`Cache read failed for ${key}:`, err);
+  }
+
+  const info = (hit: boolean, stale: boolean, fetchedAt: Date): CacheInfo => ({
+    hit,
+    stale,
+    ageSeconds: Math.max(0, Math.round((now.getTime() - fetchedAt.getTime()) / 1000)),
+    fetchedAt: fetchedAt.toISOString(),
+  });
+
+  if (entry && now.getTime() - entry.fetchedAt.getTime() < ttlSeconds * 1000) {
+    return { data: entry.value as T, cache: info(true, false, entry.fetchedAt) };
+  }
+
+  let data: T;
+  try {
+    data = await load();
+  } catch (err) {
+    if (!entry) {
+      throw err;
+    }
+    console.error(`Upstream failed for ${key}, serving stale data:`, err);
+    return { data: entry.value as T, cache: info(true, true, entry.fetchedAt) };
+  }
+
+  try {
+    await store.set(key, data, now);
+  } catch (err) {
+    console.error(`Cache write failed for ${key}:`, err);
+  }
+  return { data, cache: info(false, false, now) };
+}
+
+// Cache entries in the api_cache table, shared by every Worker instance
+export function sqlCacheStore(sql: Queryable): CacheStore {
+  return {
+    async get(key) {
+      const { rows } = await sql.query(`SELECT value, fetched_at FROM api_cache WHERE key = $1`, [key]);
+      return rows.length ? { value: rows[0].value, fetchedAt: new Date(rows[0].fetched_at) } : null;
+    },
+    async set(key, value, fetchedAt) {
+      await sql.query(
+        `INSERT INTO api_cache (key, value, fetched_at) VALUES ($1, $2, $3)
+         ON CONFLICT (key) DO UPDATE SET value = EXCLUDED.value, fetched_at = EXCLUDED.fetched_at`,
+        [key, JSON.stringify(value), fetchedAt.toISOString()]
+      );
+    },
+  };
+}
@@ -0,0 +1,82 @@
+// src/csv.ts
+// RFC 4180 CSV reading and writing for task import and export: comma
+// separated, fields optionally quoted with "", quotes inside doubled, and
+// line breaks allowed inside quoted fields.
+
+export interface CsvRecord {
+  line: number; // line of the file the record starts on, 1-based
+  cells: string[];
+}
+
+/**
+ * Split CSV text into records. Accepts \n or \r\n line endings, a leading
+ * byte order mark and a missing final newline; blank lines are skipped.
+ * Throws on a quote that is never closed.
+ */
+export function parseCsv(text: string): CsvRecord[] {
+  const records: CsvRecord[] = [];
+  let cells: string[] = [];
+  let cell = "";
+  let quoted = false;
+  let line = 1;
+  let recordLine = 1;
+  let quoteLine = 1;
+
+  const endRecord = () => {
+    cells.push(cell);
+    if (cells.length > 1 || cells[0] !== "") {
+      records.push({ line: recordLine, cells });
+    }
+    cells = [];
+    cell = "";
+  };
+
+  const input = text.replace(/^\uFEFF/, "");
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+    if (quoted) {
+      if (char === '"' && input[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        if (char === "\n") line++;
+        cell += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+      quoteLine = line;
+    } else if (char === ",") {
+      cells.push(cell);
+      cell = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && input[i + 1] === "\n") i++;
+      endRecord();
+      line++;
+      recordLine = line;
+    } else {
+      cell += char;
+    }
+  }
+  if (quoted) {
+    throw new Error(`Unclosed quote starting on line ${quoteLine}`);
+  }
+  endRecord();
+  return records;
+}
+
+// Helper: quote a cell when it needs it. Cells that spreadsheets would run as
+// formulas get a leading apostrophe, so an exported title can't execute.
+function formatCell(value: unknown): string {
+  let text = value === null || value === undefined ? "" : String(value);
+  if (/^[=+\-@\t\r]/.test(text)) {
+    text = `'${text}`;
+  }
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+// Rows to CSV text with \r\n line endings, as RFC 4180 asks
+export function toCsv(rows: unknown[][]): string {
+  return rows.map((row) => row.map(formatCell).join(",")).join("\r\n") + "\r\n";
+}
@@ -0,0 +1,92 @@
+// src/db.ts
+// Database access for request handlers. Single statements go over Neon's
+// HTTP endpoint, which needs no connection setup. A pooled WebSocket
+// connection is opened only for what HTTP can't do: interactive transactions
+// and session state such as advisory locks. Nothing connects until the first
+// query, so routes that don't touch the database never pay for it.
+import { Pool, neon, type NeonQueryFunction } from "@neondatabase/serverless";
+
+export interface QueryResult {
+  rows: any[];
+  rowCount: number | null;
+}
+
+// Anything statements can be sent to: the database itself, or one connection
+// inside a session or transaction
+export interface Queryable {
+  query(text: string, params?: unknown[]): Promise<QueryResult>;
+}
+
+export interface Db extends Queryable {
+  // Run `fn` in BEGIN/COMMIT on one pooled connection; rolled back if it throws
+  transaction<T>(fn: (tx: Queryable) => Promise<T>): Promise<T>;
+  // Run `fn` on one pooled connection, for statements that rely on session state
+  session<T>(fn: (client: Queryable) => Promise<T>): Promise<T>;
+  // Close the pool, if one was opened
+  end(): Promise<void>;
+}
+
+export function createDb(connectionString: string): Db {
+  let http: NeonQueryFunction<false, true> | null = null;
+  let pool: Pool | null = null;
+
+  const db: Db = {
+    query(text, params = []) {
+      http ??= neon(connectionString, { fullResults: true });
+      return http.query(text, params);
+    },
+    async session(fn) {
+      pool ??= new Pool({ connectionString });
+      const client = await pool.connect();
+      try {
+        return await fn(client);
+      } finally {
+        client.release();
+      }
+    },
+    transaction(fn) {
+      return db.session(async (client) => {
+        await client.query("BEGIN");
+        try {
+          const result = await fn(client);
+          await client.query("COMMIT");
+          return result;
+        } catch (err) {
+          await client.query("ROLLBACK").catch(() => {});
+          throw err;
+        }
+      });
+    },
+    async end() {
+      const open = pool;
+      pool = null;
+      await open?.end();
+    },
+  };
+  return db;
+}
+
+export interface DbHealth {
+  reachable: boolean;
+  latencyMs: number;
+  error?: string;
+}
+
+// Whether the database answers a trivial query within `timeoutMs`
+export async function checkDb(db: Queryable, timeoutMs = 3000): Promise<DbHealth> {
+  const started = Date.now();
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  try {
+    await Promise.race([
+      db.query("SELECT 1"),
+      new Promise((_, reject) => {
+        timer = setTimeout(() => reject(new Error(`No answer within ${timeoutMs} ms`)), timeoutMs);
+      }),
+    ]);
+    return { reachable: true, latencyMs: Date.now() - started };
+  } catch (err: any) {
+    return { reachable: false, latencyMs: Date.now() - started, error: err.message };
+  } finally {
+    clearTimeout(timer);
+  }
+}
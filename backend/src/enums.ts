@@ -0,0 +1,26 @@
+// src/enums.ts
+// Value sets shared by the database schema (check constraints in
+// src/migrations.ts) and request validation (src/schemas.ts). Changing one
+// here needs a migration that replaces its check constraint.
+
+// Task lifecycle states; todo and in_progress tasks roll over to the next day
+export const TASK_STATUSES = ["todo", "in_progress", "done", "skipped"] as const;
+export const UNFINISHED_STATUSES = ["todo", "in_progress"];
+
+// Where a task happens; outdoor tasks are planned around the forecast. Null means either.
+export const TASK_LOCATIONS = ["indoor", "outdoor"] as const;
+
+// How the user gets around; walkers and cyclists get rain alerts
+export const COMMUTE_MODES = ["none", "walk", "bike", "public", "car"] as const;
+
+// When in the day the user concentrates best
+export const PEAK_FOCUS_TIMES = ["morning", "afternoon", "evening"] as const;
+
+// Subscription levels; they set the rate limits in src/rateLimit.ts
+export const PLAN_TIERS = ["free", "pro"] as const;
+
+// Where reminders can be delivered; see src/reminders.ts
+export const REMINDER_CHANNEL_KINDS = ["webhook", "webpush", "email"] as const;
+
+// How work is divided into focus sessions and breaks; see src/breaks.ts
+export const BREAK_STYLES = ["pomodoro", "52-17", "ultradian", "custom"] as const;
@@ -0,0 +1,120 @@
+// src/estimates.ts
+// Per-user duration estimates learned from how long finished tasks really took
+import type { StoredBlock } from "./planSchema";
+import { actualMinutes } from "./stats";
+
+// Fewest finished tasks a ratio must be based on before we trust it
+const MIN_TITLE_SAMPLES = 2;
+const MIN_GROUP_SAMPLES = 3;
+// A single wild check-in shouldn't turn 30 minutes into 5 hours
+const MIN_RATIO = 0.5;
+const MAX_RATIO = 3;
+
+export interface DurationSample {
+  title: string;
+  importance: string;
+  planned: number; // duration_minutes the user entered
+  actual: number; // minutes the finished blocks took
+}
+
+interface Ratio {
+  ratio: number;
+  samples: number;
+}
+
+export interface DurationModel {
+  byTitle: Map<string, Ratio>;
+  byImportance: Map<string, Ratio>;
+  overall: Ratio | null;
+}
+
+export interface DurationSuggestion {
+  minutes: number;
+  ratio: number; // actual / entered
+  basis: "title" | "importance" | "overall" | "none";
+  samples: number;
+}
+
+// Helper: compare titles ignoring case, punctuation and extra whitespace
+function titleKey(title: string) {
+  return (title || "").toLowerCase().replace(/[^a-z0-9]+/g, " ").trim();
+}
+
+// Helper: median overrun ratio of a group of samples; the median keeps one
+// forgotten "finish" click from skewing everything
+function medianRatio(samples: DurationSample[]): Ratio {
+  const ratios = samples.map((s) => s.actual / s.planned).sort((a, b) => a - b);
+  const mid = Math.floor(ratios.length / 2);
+  const median = ratios.length % 2 ? ratios[mid] : (ratios[mid - 1] + ratios[mid]) / 2;
+  return { ratio: Math.min(MAX_RATIO, Math.max(MIN_RATIO, median)), samples: ratios.length };
+}
+
+/**
+ * Collect one sample per task whose blocks in `plans` were all finished.
+ * `tasks` supplies the entered duration, title and importance by task ID.
+ */
+export function collectSamples(
+  plans: Array<{ plan_json: { schedule: StoredBlock[] } }>,
+  tasks: Array<{ id: number | string; title: string; importance: string; duration_minutes: number }>
+): DurationSample[] {
+  const byId = new Map(tasks.map((t) => [String(t.id), t]));
+  const samples: DurationSample[] = [];
+
+  for (const row of plans) {
+    const blocksByTask = new Map<string, StoredBlock[]>();
+    for (const block of row.plan_json?.schedule || []) {
+      if (block.type !== "task" || block.taskId === undefined) continue;
+      blocksByTask.set(block.taskId, [...(blocksByTask.get(block.taskId) || []), block]);
+    }
+    for (const [taskId, blocks] of blocksByTask) {
+      const task = byId.get(taskId);
+      if (!task || !(task.duration_minutes > 0) || !blocks.every((b) => b.status === "finished")) continue;
+      samples.push({
+        title: task.title,
+        importance: (task.importance || "medium").toLowerCase(),
+        planned: task.duration_minutes,
+        actual: blocks.reduce((sum, b) => sum + actualMinutes(b), 0),
+      });
+    }
+  }
+  return samples;
+}
+
+// Build overrun ratios per similar title, per importance level and overall
+export function buildDurationModel(samples: DurationSample[]): DurationModel {
+  const group = (key: (s: DurationSample) => string) => {
+    const groups = new Map<string, DurationSample[]>();
+    for (const sample of samples) {
+      groups.set(key(sample), [...(groups.get(key(sample)) || []), sample]);
+    }
+    return new Map([...groups].map(([k, v]) => [k, medianRatio(v)]));
+  };
+
+  return {
+    byTitle: group((s) => titleKey(s.title)),
+    byImportance: group((s) => s.importance),
+    overall: samples.length ? medianRatio(samples) : null,
+  };
+}
+
+/**
+ * Suggest a duration for a task: the entered minutes scaled by the most
+ * specific ratio with enough history (same title, then same importance, then
+ * everything), rounded to 5 minutes. Without history the entered value stands.
+ */
+export function suggestDuration(model: DurationModel, task: { title: string; importance: string; duration_minutes: number }): DurationSuggestion {
+  const entered = Number(task.duration_minutes) || 30;
+  const candidates: Array<[DurationSuggestion["basis"], Ratio | undefined, number]> = [
+    ["title", model.byTitle.get(titleKey(task.title)), MIN_TITLE_SAMPLES],
+    ["importance", model.byImportance.get((task.importance || "medium").toLowerCase()), MIN_GROUP_SAMPLES],
+    ["overall", model.overall, MIN_GROUP_SAMPLES],
+  ];
+
+  for (const [basis, found, minSamples] of candidates) {
+    if (found && found.samples >= minSamples) {
+      const ratio = Math.round(found.ratio * 100) / 100;
+      return { minutes: Math.max(5, Math.round((entered * found.ratio) / 5) * 5), ratio, basis, samples: found.samples };
+    }
+  }
+  return { minutes: entered, ratio: 1, basis: "none", samples: 0 };
+}
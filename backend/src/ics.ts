@@ -0,0 +1,379 @@
+// src/ics.ts
+// iCalendar (RFC 5545) output for stored plans, and parsing of imported calendars
+import { isValidTimeZone, scheduleInstants, zonedParts, zonedTimeToUtc } from "./time";
+import { occursOn, parseRRule, type RecurrenceRule } from "./recurrence";
+
+export interface CalendarEvent {
+  uid: string;
+  start: Date;
+  durationMinutes: number;
+  summary: string;
+  description?: string;
+  categories?: string[];
+  transparent?: boolean; // breaks and meals don't mark the user busy
+}
+
+const encoder = new TextEncoder();
+
+// Helper: escape TEXT values (RFC 5545 section 3.3.11)
+function escapeText(value: string) {
+  return value
+    .replace(/\\/g, "\\\\")
+    .replace(/;/g, "\\;")
+    .replace(/,/g, "\\,")
+    .replace(/\r?\n/g, "\\n");
+}
+
+// Helper: fold content lines longer than 75 octets, without splitting a UTF-8 character
+function foldLine(line: string) {
+  if (encoder.encode(line).length <= 75) {
+    return line;
+  }
+  const parts: string[] = [];
+  let current = "";
+  let currentBytes = 0;
+  for (const char of line) {
+    const bytes = encoder.encode(char).length;
+    // Continuation lines start with a space, which counts towards their 75 octets
+    const limit = parts.length === 0 ? 75 : 74;
+    if (currentBytes + bytes > limit) {
+      parts.push(current);
+      current = "";
+      currentBytes = 0;
+    }
+    current += char;
+    currentBytes += bytes;
+  }
+  parts.push(current);
+  return parts.join("\r\n ");
+}
+
+// Helper: Date to UTC DATE-TIME, e.g. 20251019T071500Z
+function formatUtc(date: Date) {
+  return date.toISOString().replace(/[-:]/g, "").replace(/\.\d{3}/, "");
+}
+
+/**
+ * Render a VCALENDAR. Event times are written in UTC, so every calendar
+ * client shows them at the right moment whatever its own timezone.
+ */
+export function buildCalendar(name: string, events: CalendarEvent[], now = new Date()) {
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    "PRODID:-//PlanMyDay//Daily Plan//EN",
+    "CALSCALE:GREGORIAN",
+    "METHOD:PUBLISH",
+    `X-WR-CALNAME:${escapeText(name)}`,
+  ];
+
+  for (const event of events) {
+    lines.push(
+      "BEGIN:VEVENT",
+      `UID:${event.uid}`,
+      `DTSTAMP:${formatUtc(now)}`,
+      `DTSTART:${formatUtc(event.start)}`,
+      `DURATION:PT${event.durationMinutes}M`,
+      `SUMMARY:${escapeText(event.summary)}`
+    );
+    if (event.description) {
+      lines.push(`DESCRIPTION:${escapeText(event.description)}`);
+    }
+    if (event.categories?.length) {
+      lines.push(`CATEGORIES:${event.categories.map(escapeText).join(",")}`);
+    }
+    lines.push(`TRANSP:${event.transparent ? "TRANSPARENT" : "OPAQUE"}`, "END:VEVENT");
+  }
+
+  lines.push("END:VCALENDAR");
+  return lines.map(foldLine).join("\r\n") + "\r\n";
+}
+
+// Helper: the per-user part of a block's UID. It has to come out the same when
+// the plan is generated or re-planned again, so it is built from what the
+// block is, not from its position or its per-version ID: the task and which of
+// its parts, or the type and activity of other blocks, numbered in schedule
+// order. `seen` counts the blocks keyed so far.
+function blockKey(planDate: string, block: any, seen: Map<string, number>): string {
+  const what = block.type === "task" && block.taskId !== undefined
+    ? `task-${block.taskId}`
+    : `${block.type || "block"}-${String(block.activity || "").toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-|-$/g, "")}`;
+  const count = (seen.get(what) || 0) + 1;
+  seen.set(what, count);
+  return `plan-${planDate}-${what}-${count}`;
+}
+
+/**
+ * Turn one stored plan into calendar events. Block times are wall-clock times
+ * in the user's `timeZone`. UIDs are derived from the plan date and what each
+ * block is (see blockKey), so re-importing a regenerated or re-planned plan
+ * updates the existing events instead of adding duplicates. Blocks after
+ * midnight (a time earlier than the block before) land on the next day.
+ */
+export function planToEvents(userId: string, planDate: string, plan: any, timeZone: string): CalendarEvent[] {
+  const schedule = plan?.schedule || [];
+  const starts = scheduleInstants(planDate, schedule.map((block: any) => block.time), timeZone);
+  const seen = new Map<string, number>();
+
+  return schedule.map((block: any, index: number): CalendarEvent => ({
+    uid: `${blockKey(planDate, block, seen)}.${userId}@planmyday`,
+    start: starts[index],
+    durationMinutes: Math.max(1, parseInt(block.duration, 10) || 30),
+    summary: block.activity || "Planned block",
+    description: index === 0 && plan.summary ? plan.summary : undefined,
+    categories: block.type ? [String(block.type).toUpperCase()] : undefined,
+    transparent: block.type === "break" || block.type === "meal",
+  }));
+}
+
+// --- Import ----------------------------------------------------
+
+// A DTSTART/DTEND/EXDATE value as written in the file
+export interface IcsDateTime {
+  date: string; // YYYY-MM-DD
+  minutes: number; // from midnight; 0 for all-day values
+  allDay: boolean;
+  utc: boolean; // ends in Z
+  tzid?: string;
+}
+
+export interface ImportedEvent {
+  uid: string;
+  summary: string;
+  start: IcsDateTime;
+  durationMinutes: number;
+  rule?: RecurrenceRule;
+  exdates: Set<string>; // dates of cancelled occurrences
+  recurrenceId?: string; // set on an edited occurrence: the date it replaces
+  transparent: boolean; // doesn't make the user busy; see isTransparent
+}
+
+// A stretch of the plan date the user is busy, in minutes from that day's midnight
+export interface BusyBlock {
+  title: string;
+  start: number;
+  end: number;
+}
+
+const DAY_MINUTES = 24 * 60;
+const DAY_MS = DAY_MINUTES * 60 * 1000;
+
+// Helper: shift a YYYY-MM-DD date by whole days
+function addDays(date: string, days: number) {
+  return new Date(Date.parse(`${date}T00:00:00Z`) + days * DAY_MS).toISOString().slice(0, 10);
+}
+
+function dayDiff(from: string, to: string) {
+  return Math.round((Date.parse(`${to}T00:00:00Z`) - Date.parse(`${from}T00:00:00Z`)) / DAY_MS);
+}
+
+// Helper: undo TEXT escaping
+function unescapeText(value: string) {
+  return value.replace(/\\([\\;,nN])/g, (_, c) => (c === "n" || c === "N" ? "\n" : c));
+}
+
+// Helper: "20251019", "20251019T090000" or "20251019T090000Z" with its parameters
+function parseDateTime(value: string, params: Record<string, string>): IcsDateTime {
+  const match = /^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})?(Z)?)?$/.exec(value.trim());
+  if (!match) {
+    throw new Error(`Invalid date-time value: ${value}`);
+  }
+  const allDay = params.VALUE === "DATE" || match[4] === undefined;
+  return {
+    date: `${match[1]}-${match[2]}-${match[3]}`,
+    minutes: allDay ? 0 : Number(match[4]) * 60 + Number(match[5]),
+    allDay,
+    utc: match[7] === "Z",
+    tzid: params.TZID,
+  };
+}
+
+// Helper: DURATION such as PT45M, P1DT2H or P1W, in minutes
+function parseDuration(value: string) {
+  const match = /^([+-])?P(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/.exec(value.trim());
+  if (!match) {
+    throw new Error(`Invalid duration: ${value}`);
+  }
+  const [, sign, w, d, h, m] = match;
+  const minutes = (Number(w || 0) * 7 + Number(d || 0)) * DAY_MINUTES + Number(h || 0) * 60 + Number(m || 0);
+  return sign === "-" ? -minutes : minutes;
+}
+
+/**
+ * Parse the VEVENTs of an iCalendar file. Cancelled events are dropped; an
+ * RRULE we can't expand leaves just the first occurrence. Throws if the text
+ * is not an iCalendar file at all.
+ */
+export function parseCalendar(text: string): ImportedEvent[] {
+  // Unfold continuation lines (CRLF or LF followed by a space or tab)
+  const lines = text.replace(/\r?\n[ \t]/g, "").split(/\r?\n/);
+  if (!lines.some((line) => line.trim().toUpperCase() === "BEGIN:VCALENDAR")) {
+    throw new Error("Not an iCalendar file: missing BEGIN:VCALENDAR");
+  }
+
+  const events: ImportedEvent[] = [];
+  let props: Array<{ name: string; params: Record<string, string>; value: string }> | null = null;
+  let nested = 0; // depth inside VALARM and other components within the event
+
+  for (const line of lines) {
+    const match = /^([A-Za-z0-9-]+)((?:;[^:]*)?):(.*)$/.exec(line);
+    if (!match) continue;
+    const name = match[1].toUpperCase();
+    const value = match[3];
+
+    if (name === "BEGIN" && value.toUpperCase() === "VEVENT") {
+      props = [];
+      nested = 0;
+      continue;
+    }
+    if (!props) continue;
+    if (name === "BEGIN") {
+      nested++;
+      continue;
+    }
+    if (name === "END" && nested > 0) {
+      nested--;
+      continue;
+    }
+    if (name === "END" && value.toUpperCase() === "VEVENT") {
+      const event = toImportedEvent(props);
+      if (event) events.push(event);
+      props = null;
+      continue;
+    }
+    if (nested > 0) continue;
+
+    const params: Record<string, string> = {};
+    for (const param of match[2].split(";").filter(Boolean)) {
+      const [key, ...rest] = param.split("=");
+      params[key.toUpperCase()] = rest.join("=").replace(/^"|"$/g, "");
+    }
+    props.push({ name, params, value });
+  }
+
+  return events;
+}
+
+// Helper: whether an event leaves the user free. TRANSP defaults to OPAQUE, but
+// all-day events are mostly birthdays, holidays and reminders, so those only
+// count as busy when the file says so: TRANSP:OPAQUE written out, or Outlook's
+// busy status set to busy or out of office.
+function isTransparent(allDay: boolean, transp: string | undefined, busyStatus: string | undefined): boolean {
+  const transparency = (transp || "").toUpperCase();
+  const status = (busyStatus || "").toUpperCase();
+  if (transparency === "TRANSPARENT" || status === "FREE") {
+    return true;
+  }
+  return allDay && transparency !== "OPAQUE" && status !== "BUSY" && status !== "OOF";
+}
+
+function toImportedEvent(props: Array<{ name: string; params: Record<string, string>; value: string }>): ImportedEvent | null {
+  const get = (name: string) => props.find((p) => p.name === name);
+  const dtstart = get("DTSTART");
+  if (!dtstart || (get("STATUS")?.value || "").toUpperCase() === "CANCELLED") {
+    return null;
+  }
+
+  const start = parseDateTime(dtstart.value, dtstart.params);
+  let durationMinutes: number;
+  const dtend = get("DTEND");
+  const duration = get("DURATION");
+  if (dtend) {
+    const end = parseDateTime(dtend.value, dtend.params);
+    durationMinutes = dayDiff(start.date, end.date) * DAY_MINUTES + end.minutes - start.minutes;
+  } else if (duration) {
+    durationMinutes = parseDuration(duration.value);
+  } else {
+    // RFC 5545: no end means one day for dates, zero length for date-times
+    durationMinutes = start.allDay ? DAY_MINUTES : 0;
+  }
+
+  let rule: RecurrenceRule | undefined;
+  const rrule = get("RRULE");
+  if (rrule) {
+    try {
+      rule = parseRRule(rrule.value);
+    } catch (err) {
+      console.error(`Ignoring unsupported RRULE "${rrule.value}":`, err);
+    }
+  }
+
+  const exdates = new Set<string>();
+  for (const exdate of props.filter((p) => p.name === "EXDATE")) {
+    for (const value of exdate.value.split(",")) {
+      exdates.add(parseDateTime(value, exdate.params).date);
+    }
+  }
+
+  const recurrenceId = get("RECURRENCE-ID");
+  const busyStatus = get("X-MICROSOFT-CDO-BUSYSTATUS")?.value;
+  return {
+    uid: get("UID")?.value || crypto.randomUUID(),
+    summary: unescapeText(get("SUMMARY")?.value || "Busy"),
+    start,
+    durationMinutes: Math.max(0, durationMinutes),
+    rule,
+    exdates,
+    recurrenceId: recurrenceId ? parseDateTime(recurrenceId.value, recurrenceId.params).date : undefined,
+    transparent: isTransparent(start.allDay, get("TRANSP")?.value, busyStatus),
+  };
+}
+
+// Helper: where an occurrence lands on the user's clock. UTC and TZID times
+// are converted to `timeZone`; floating times and dates are already local.
+// A TZID we don't recognize (e.g. a Windows zone name) is taken as the user's.
+function toLocal(value: IcsDateTime, timeZone: string) {
+  if (value.allDay || (!value.utc && !value.tzid)) {
+    return { date: value.date, minutes: value.minutes };
+  }
+  const sourceZone = value.utc ? "UTC" : isValidTimeZone(value.tzid) ? value.tzid : timeZone;
+  return zonedParts(zonedTimeToUtc(value.date, value.minutes, sourceZone), timeZone);
+}
+
+/**
+ * Busy blocks on `date` (YYYY-MM-DD, in the user's `timeZone`) from imported
+ * events, clipped to that day. Recurring events are expanded with their RRULE, skipping EXDATEs and
+ * occurrences replaced by an edited instance (RECURRENCE-ID). Transparent
+ * (free) events are left out, as are all-day events not explicitly marked
+ * busy; the ones that are block the whole day.
+ */
+export function busyBlocksOn(events: ImportedEvent[], date: string, timeZone: string): BusyBlock[] {
+  const replaced = new Set(
+    events.filter((e) => e.recurrenceId).map((e) => `${e.uid}|${e.recurrenceId}`)
+  );
+  const blocks: BusyBlock[] = [];
+
+  for (const event of events) {
+    if (event.transparent || event.durationMinutes === 0) continue;
+
+    // Occurrence start dates (in the event's own calendar) that could reach `date`
+    const starts: string[] = [];
+    if (event.rule && !event.recurrenceId) {
+      const spanDays = Math.ceil(event.durationMinutes / DAY_MINUTES) + 1;
+      for (let offset = -spanDays; offset <= 1; offset++) {
+        const day = addDays(date, offset);
+        if (
+          occursOn(event.rule, event.start.date, day) &&
+          !event.exdates.has(day) &&
+          !replaced.has(`${event.uid}|${day}`)
+        ) {
+          starts.push(day);
+        }
+      }
+    } else {
+      starts.push(event.start.date);
+    }
+
+    for (const startDate of starts) {
+      const local = toLocal({ ...event.start, date: startDate }, timeZone);
+      const start = dayDiff(date, local.date) * DAY_MINUTES + local.minutes;
+      const end = start + event.durationMinutes;
+      const clipped = { title: event.summary, start: Math.max(0, start), end: Math.min(DAY_MINUTES, end) };
+      if (clipped.end > clipped.start) {
+        blocks.push(clipped);
+      }
+    }
+  }
+
+  return blocks.sort((a, b) => a.start - b.start);
+}
@@ -1,6 +1,96 @@
 // src/index.ts
-import { Client } from "@neondatabase/serverless";
 import { verifyToken } from "@clerk/backend";
+import { verifyWebhook, type WebhookEvent } from "@clerk/backend/webhooks";
+import { Hono, type Context, type Next } from "hono";
+import { OpenAPIRoute, contentJson, fromHono } from "chanfana";
+import { z } from "zod";
+import { buildLocalPlan, planDay, withCalendarEvents } from "./scheduler";
+import { CUSTOM_WORK_MINUTES, breakStrategyFor, describeBreakStrategy, mealOverlap, mealsFor, type Meal } from "./breaks";
+import { PlanSchema, formatSchemaIssues, stampBlocks, type DayPlan, type ScheduleBlock, type StoredBlock } from "./planSchema";
+import { HARD_VIOLATIONS, validatePlan, type PlanViolation } from "./planValidator";
+import { findCycle, type DependencyGraph } from "./taskGraph";
+import { diffPlans } from "./planDiff";
+import { computeStats } from "./stats";
+import { buildDurationModel, collectSamples, suggestDuration, type DurationModel } from "./estimates";
+import { describeRule, formatRRule, occursOn, parseRRule, recurrenceFromInput } from "./recurrence";
+import { buildCalendar, busyBlocksOn, parseCalendar, planToEvents, type BusyBlock } from "./ics";
+import { createProvider, streamChat, type ChatMessage, type LLMProvider } from "./llm";
+import { createBlockParser } from "./planStream";
+import { cached, sqlCacheStore, type CacheInfo } from "./cache";
+import { parseCsv, toCsv, type CsvRecord } from "./csv";
+import { checkDb, createDb, type Db, type Queryable } from "./db";
+import { migrate, migrationStatus } from "./migrations";
+import { consumeRateLimit, rateLimitHeaders, rateLimitsFor, type RateLimitBucket } from "./rateLimit";
+import { PLAN_TIERS, TASK_LOCATIONS, TASK_STATUSES, UNFINISHED_STATUSES } from "./enums";
+import { createChannel, describeChannel, digestMinutes, digestReminder, dueBlockReminders, inQuietHours, type Reminder } from "./reminders";
+import {
+  ActivatedPlanSchema, ApodSchema, BlockCheckInResultSchema, BlockCheckInSchema, BlockParamsSchema, ErrorSchema, GeneratedPlanSchema, OkSchema,
+  PlanCalendarQuerySchema, PlanDateQuerySchema, PlanDiffQuerySchema, PlanDiffResultSchema, PlanOptionsQuerySchema, PlanResultSchema,
+  PlanVersionListSchema, PlanVersionParamsSchema, PlanVersionSchema, PreferencesResultSchema, PreferencesSchema, QuickAddRequestSchema,
+  QuickAddResultSchema, RecurringTaskInputSchema, RecurringTaskListSchema, RecurringTaskParamsSchema, RecurringTaskPatchSchema,
+  RecurringTaskResultSchema, ReminderChannelInputSchema, ReminderChannelListSchema, ReminderChannelParamsSchema, ReminderChannelResultSchema,
+  ReminderTestResultSchema, ReplanRequestSchema, ReplanResultSchema, TaskExportQuerySchema, TaskExportSchema, TaskIdParamsSchema,
+  TaskImportQuerySchema, TaskImportResultSchema, TaskInputSchema, TaskListQuerySchema, TaskListSchema, TaskPatchSchema, TaskResultSchema,
+  WeatherSchema,
+  type BlockCheckInInput, type PlanCalendarQuery, type PlanDiffQuery, type PlanOptions, type PreferencesInput, type QuickAddInput,
+  type RecurringTaskInput, type ReminderChannelInput, type ReplanInput, type TaskExportQuery, type TaskImportQuery, type TaskInput,
+  type TaskListQuery,
+} from "./schemas";
+import { mergeAIFields, parseQuickAdd, quickAddPrompt } from "./quickAdd";
+import { createWeatherProvider, describeWeatherChoices, outdoorWindows, type HourlyForecast, type WeatherWindow } from "./weather";
+import { fromBase64Url } from "./webPush";
+import { formatTime, isValidDate, isValidTimeZone, localDate, scheduleInstants, toMinutes, zonedParts } from "./time";
+
+// How far back finished tasks count towards learned duration estimates
+const ESTIMATE_HISTORY_DAYS = 90;
+
+// Columns returned for a task, with dates as plain YYYY-MM-DD strings
+const TASK_COLUMNS = `id, title, duration_minutes, importance, status, task_date::text AS task_date, rolled_over_from::text AS rolled_over_from,
+  recurring_task_id, occurrence_date::text AS occurrence_date,
+  to_char(fixed_start, 'HH24:MI') AS fixed_start, to_char(deadline, 'HH24:MI') AS deadline, depends_on, location`;
+
+const RECURRING_TASK_COLUMNS = `id, title, duration_minutes, importance, rrule, start_date::text AS start_date`;
+
+const PREFERENCES_COLUMNS = `wake_time, sleep_time, peak_focus, city, break_style, break_interval_minutes, break_minutes, meals, max_work_hours,
+  commute_mode, timezone, reminder_lead_minutes, to_char(quiet_hours_start, 'HH24:MI') AS quiet_hours_start, to_char(quiet_hours_end, 'HH24:MI') AS quiet_hours_end`;
+
+// How many times the model may answer before we give up on its plan
+const MAX_PLAN_ATTEMPTS = 3;
+
+// Longest date range a calendar export may cover
+const MAX_CALENDAR_DAYS = 93;
+
+// Largest calendar file accepted by the import endpoint
+const MAX_CALENDAR_BYTES = 1024 * 1024;
+
+// Limits for bulk task import, and the longest date range a task export may cover
+const MAX_IMPORT_BYTES = 1024 * 1024;
+const MAX_IMPORT_ROWS = 1000;
+const MAX_EXPORT_DAYS = 366;
+
+// Columns of a task CSV export, in order; imports accept them in any order
+const TASK_CSV_COLUMNS = ["id", "title", "duration", "importance", "status", "date", "fixedStart", "deadline", "dependsOn", "location", "completedAt"];
+
+// Longest date range the stats endpoint will summarize, and its default
+const MAX_STATS_DAYS = 366;
+const DEFAULT_STATS_DAYS = 7;
+
+// How long upstream answers are reused before asking again, in seconds. Older
+// answers are still served when the upstream API fails.
+const WEATHER_CACHE_TTL = 10 * 60;
+const FORECAST_CACHE_TTL = 60 * 60;
+const APOD_CACHE_TTL = 6 * 60 * 60;
+
+// Most reminder channels one user may register, and how long sent reminders
+// are remembered for de-duplication
+const MAX_REMINDER_CHANNELS = 10;
+const REMINDER_HISTORY_DAYS = 7;
+
+// NASA publishes a new picture of the day at midnight US Eastern time
+const APOD_TIMEZONE = "America/New_York";
+
+// Response headers browser clients may read
+const EXPOSED_HEADERS = "Retry-After, RateLimit-Limit, RateLimit-Remaining, RateLimit-Reset, RateLimit-Policy";
 
 // Helper: return JSON with CORS headers
 const json = (data: unknown, status = 200) =>
@@ -9,25 +99,73 @@ const json = (data: unknown, status = 200) =>
     headers: { 
       "Content-Type": "application/json",
       "Access-Control-Allow-Origin": "*",
-      "Access-Control-Allow-Methods": "GET, POST, PUT, DELETE, OPTIONS",
+      "Access-Control-Allow-Methods": "GET, POST, PUT, PATCH, DELETE, OPTIONS",
       "Access-Control-Allow-Headers": "Content-Type, Authorization",
+      "Access-Control-Expose-Headers": EXPOSED_HEADERS,
     },
   });
 
+// Helper: 400 for a request that failed schema validation; `error` is for
+// people, `issues` lists each problem for forms to show next to its field
+const validationError = (error: z.ZodError) => {
+  const issues = formatSchemaIssues(error);
+  return json({ error: `Invalid request: ${issues.join("; ")}`, issues }, 400);
+};
+
 // Helper: return CORS preflight response
 const corsResponse = () =>
   new Response(null, {
     status: 200,
     headers: {
       "Access-Control-Allow-Origin": "*",
-      "Access-Control-Allow-Methods": "GET, POST, PUT, DELETE, OPTIONS",
+      "Access-Control-Allow-Methods": "GET, POST, PUT, PATCH, DELETE, OPTIONS",
       "Access-Control-Allow-Headers": "Content-Type, Authorization",
       "Access-Control-Max-Age": "86400",
     },
   });
 
+// Helper: return an iCalendar body with CORS headers
+const calendarResponse = (body: string, filename: string) =>
+  new Response(body, {
+    status: 200,
+    headers: {
+      "Content-Type": "text/calendar; charset=utf-8",
+      "Content-Disposition": `inline; filename="${filename}"`,
+      "Cache-Control": "no-cache",
+      "Access-Control-Allow-Origin": "*",
+      "Access-Control-Allow-Methods": "GET, POST, PUT, PATCH, DELETE, OPTIONS",
+      "Access-Control-Allow-Headers": "Content-Type, Authorization",
+    },
+  });
+
+// Helper: return a CSV file download with CORS headers
+const csvResponse = (body: string, filename: string) =>
+  new Response(body, {
+    status: 200,
+    headers: {
+      "Content-Type": "text/csv; charset=utf-8",
+      "Content-Disposition": `attachment; filename="${filename}"`,
+      "Cache-Control": "no-cache",
+      "Access-Control-Allow-Origin": "*",
+      "Access-Control-Allow-Methods": "GET, POST, PUT, PATCH, DELETE, OPTIONS",
+      "Access-Control-Allow-Headers": "Content-Type, Authorization",
+    },
+  });
+
+// Requests whose token was already checked, so middleware and handler verify it only once
+const verifiedUsers = new WeakMap<Request, Promise<string>>();
+
 // Clerk JWT verification (RS256)
-async function getUserId(req: Request, env: Env) {
+function getUserId(req: Request, env: Env) {
+  let userId = verifiedUsers.get(req);
+  if (!userId) {
+    userId = verifyUserId(req, env);
+    verifiedUsers.set(req, userId);
+  }
+  return userId;
+}
+
+async function verifyUserId(req: Request, env: Env) {
   try {
     const authHeader = req.headers.get("Authorization") || "";
     if (!authHeader || !authHeader.startsWith("Bearer ")) {
@@ -54,356 +192,1879 @@ async function getUserId(req: Request, env: Env) {
   }
 }
 
-// Route dispatcher
-export default {
-  async fetch(req: Request, env: Env): Promise<Response> {
-    // Initialize Neon connection with environment variables
-    const sql = new Client(env.NEON_DATABASE_URL);
-    
-    try {
-      await sql.connect();
-    } catch (err) {
-      console.error("Database connection failed:", err);
-      return json({ error: "Database connection failed" }, 500);
-    }
+// Helper: compare secrets in constant time
+function safeEqual(a: string, b: string) {
+  if (a.length !== b.length) {
+    return false;
+  }
+  let diff = 0;
+  for (let i = 0; i < a.length; i++) {
+    diff |= a.charCodeAt(i) ^ b.charCodeAt(i);
+  }
+  return diff === 0;
+}
 
-    const url = new URL(req.url);
-    const path = url.pathname;
-    const method = req.method.toUpperCase();
+// Admin routes need the ADMIN_TOKEN secret in an X-Admin-Token header; without
+// the secret configured they don't exist. Returns an error response, or null.
+function checkAdmin(req: Request, env: Env): Response | null {
+  if (!env.ADMIN_TOKEN) {
+    return json({ error: "Not found" }, 404);
+  }
+  if (!safeEqual(req.headers.get("X-Admin-Token") || "", env.ADMIN_TOKEN)) {
+    return json({ error: "Invalid admin token" }, 401);
+  }
+  return null;
+}
 
-    try {
-      // Handle CORS preflight requests
-      if (method === "OPTIONS") {
-        return corsResponse();
-      }
-      
-      // Add a health check endpoint
-      if (path === "/health" && method === "GET") {
-        return json({ status: "ok", timestamp: new Date().toISOString() });
-      }
-      if (path === "/" && method === "GET") {
-        return json({ status: "Server Running", message:"Can't access backend directly.", timestamp: new Date().toISOString() });
-      }
-      if (path === "/api/tasks" && method === "POST") {
-        return await createTask(req, env, sql);
-      }
-      if (path === "/api/tasks" && method === "GET") {
-        return await getTasks(req, env, sql);
-      }
-      if (path.startsWith("/api/tasks/") && method === "DELETE") {
-        return await deleteTask(req, env, sql);
-      }
-      if (path === "/api/preferences" && method === "POST") {
-        return await savePreferences(req, env, sql);
-      }
-      if (path === "/api/preferences" && method === "GET") {
-        return await getPreferences(req, env, sql);
-      }
-      if (path === "/api/plan" && method === "POST") {
-        return await generatePlan(req, env, sql);
-      }
-      if (path === "/api/plan" && method === "GET") {
-        return await getPlan(req, env, sql);
-      }
-      if (path === "/api/weather" && method === "GET") {
-        return await getWeather(req, env, sql);
-      }
-      if (path === "/api/apod" && method === "GET") {
-        return await getApod(req, env);
-      }
-      return json({ error: "Not found" }, 404);
-    } catch (err: any) {
-      console.error("Request error:", err);
-      return json({ error: err.message || "Server error" }, 500);
-    } finally {
-      // Close the connection safely
-      try {
-        await sql.end();
-      } catch (err) {
-        console.error("Error closing database connection:", err);
-      }
-    }
-  },
+// --- Routes ----------------------------------------------------
+// Every /api request gets a Db on the context: plain queries go over HTTP, and a
+// connection pool is only opened when a handler runs a transaction or session
+type AppEnv = { Bindings: Env; Variables: { sql: Db } };
+type AppContext = Context<AppEnv>;
+
+// Routes with schemas: chanfana validates their input before `handle` runs
+// and describes them in /openapi.json, browsable at /docs
+class ApiRoute extends OpenAPIRoute {
+  handleValidationError(errors: z.ZodIssue[]) {
+    return validationError(new z.ZodError(errors));
+  }
+}
+
+const BEARER_AUTH = [{ bearerAuth: [] }];
+
+const ERROR_RESPONSES = {
+  "400": { description: "Invalid request", ...contentJson(ErrorSchema) },
+  "500": { description: "Authentication failed or the server could not complete the request", ...contentJson(ErrorSchema) },
 };
 
-// --- Handlers --------------------------------------------------
-async function createTask(req: Request, env: Env, sql: Client) {
-  const userId = await getUserId(req, env);
-  
-  // Ensure the user exists in the users table before creating tasks
-  try {
-    await sql.query(
-      `INSERT INTO users (id) VALUES ($1) ON CONFLICT (id) DO NOTHING`,
-      [userId]
-    );
-  } catch (err) {
-    console.error("Failed to create user record:", err);
-    // Continue anyway, the user might already exist
+// For rate limited routes; every response of those routes carries the RateLimit-* headers
+const RATE_LIMITED_RESPONSE = {
+  "429": { description: "Rate limit exceeded; Retry-After says when to try again", ...contentJson(ErrorSchema) },
+};
+
+class ListTasks extends ApiRoute {
+  schema = {
+    tags: ["Tasks"],
+    summary: "List tasks",
+    description: "Unfinished tasks from earlier days roll over to today, and recurring tasks are created for the requested date first.",
+    security: BEARER_AUTH,
+    request: { query: TaskListQuerySchema },
+    responses: { "200": { description: "Matching tasks, newest first", ...contentJson(TaskListSchema) }, ...ERROR_RESPONSES },
+  };
+
+  async handle(c: AppContext) {
+    const { query } = await this.getValidatedData<typeof this.schema>();
+    return getTasks(c.req.raw, c.env, c.get("sql"), query);
   }
-  
-  let body;
-  try {
-    body = await req.json() as { title: string; duration: number; importance: string };
-  } catch (err) {
-    return json({ error: "Invalid JSON in request body" }, 400);
+}
+
+class CreateTask extends ApiRoute {
+  schema = {
+    tags: ["Tasks"],
+    summary: "Create a task",
+    security: BEARER_AUTH,
+    request: { body: contentJson(TaskInputSchema) },
+    responses: { "200": { description: "The created task", ...contentJson(TaskResultSchema) }, ...ERROR_RESPONSES },
+  };
+
+  async handle(c: AppContext) {
+    const { body } = await this.getValidatedData<typeof this.schema>();
+    return createTask(c.req.raw, c.env, c.get("sql"), body);
   }
-  
-  const { title, duration, importance } = body;
-  
-  // Validate required fields
-  if (!title || typeof title !== 'string' || title.trim().length === 0) {
-    return json({ error: "Title is required and must be a non-empty string" }, 400);
+}
+
+class ParseTask extends ApiRoute {
+  schema = {
+    tags: ["Tasks"],
+    summary: "Parse a quick-add line into task fields",
+    description: "Reads title, duration, importance, date, deadline and start time from free text, each with a confidence so the client can confirm the uncertain ones. With `create` the task is created as well.",
+    security: BEARER_AUTH,
+    request: { body: contentJson(QuickAddRequestSchema) },
+    responses: { "200": { description: "The parsed fields, and the task when created", ...contentJson(QuickAddResultSchema) }, ...ERROR_RESPONSES },
+  };
+
+  async handle(c: AppContext) {
+    const { body } = await this.getValidatedData<typeof this.schema>();
+    return parseTask(c.req.raw, c.env, c.get("sql"), body);
   }
-  
-  if (!duration || typeof duration !== 'number' || duration <= 0) {
-    return json({ error: "Duration is required and must be a positive number" }, 400);
+}
+
+class ImportTasks extends ApiRoute {
+  schema = {
+    tags: ["Tasks"],
+    summary: "Create many tasks from CSV or JSON",
+    description: "Send CSV with a header row (Content-Type: text/csv), or JSON as `{ tasks: [...] }` or a bare list. Each row is checked like POST /api/tasks; rows that fail are reported and skipped.",
+    security: BEARER_AUTH,
+    request: { query: TaskImportQuerySchema },
+    responses: {
+      "200": { description: "What happened to each row", ...contentJson(TaskImportResultSchema) },
+      "413": { description: "Too many rows or bytes", ...contentJson(ErrorSchema) },
+      ...ERROR_RESPONSES,
+    },
+  };
+
+  async handle(c: AppContext) {
+    const { query } = await this.getValidatedData<typeof this.schema>();
+    return importTasks(c.req.raw, c.env, c.get("sql"), query);
   }
-  
-  if (!importance || typeof importance !== 'string') {
-    return json({ error: "Importance is required and must be a string" }, 400);
+}
+
+class ExportTasks extends ApiRoute {
+  schema = {
+    tags: ["Tasks"],
+    summary: "Export tasks as CSV or JSON",
+    description: "Tasks dated `from` to `to` (both default to today), as a file download.",
+    security: BEARER_AUTH,
+    request: { query: TaskExportQuerySchema },
+    responses: {
+      "200": {
+        description: "The tasks",
+        content: { "application/json": { schema: TaskExportSchema }, "text/csv": { schema: z.string() } },
+      },
+      ...ERROR_RESPONSES,
+    },
+  };
+
+  async handle(c: AppContext) {
+    const { query } = await this.getValidatedData<typeof this.schema>();
+    return exportTasks(c.req.raw, c.env, c.get("sql"), query);
   }
-  
-  try {
-    await sql.query(
-      `INSERT INTO tasks (user_id, title, duration_minutes, importance, task_date)
-       VALUES ($1, $2, $3, $4, CURRENT_DATE)`,
-      [userId, title.trim(), duration, importance]
-    );
-    return json({ ok: true, message: "Task created successfully" });
-  } catch (err: any) {
-    console.error("Database error creating task:", err);
-    return json({ error: "Failed to create task: " + err.message }, 500);
+}
+
+class ReplaceTask extends ApiRoute {
+  schema = {
+    tags: ["Tasks"],
+    summary: "Replace a task's fields",
+    security: BEARER_AUTH,
+    request: { params: TaskIdParamsSchema, body: contentJson(TaskInputSchema) },
+    responses: {
+      "200": { description: "The updated task", ...contentJson(TaskResultSchema) },
+      "404": { description: "No such task", ...contentJson(ErrorSchema) },
+      ...ERROR_RESPONSES,
+    },
+  };
+
+  async handle(c: AppContext) {
+    const { params, body } = await this.getValidatedData<typeof this.schema>();
+    return updateTask(c.req.raw, c.env, c.get("sql"), params.id, body, false);
   }
 }
 
-async function getPlan(req: Request, env: Env, sql: Client) {
-  const userId = await getUserId(req, env);
-  
-  try {
-    const { rows } = await sql.query(
-      `SELECT plan_json FROM plans WHERE user_id = $1 AND plan_date = CURRENT_DATE`,
-      [userId]
-    );
-    
-    if (!rows.length) {
-      return json({ plan: null, message: "No plan found for today" });
-    }
-    
-    return json({ plan: rows[0].plan_json });
-  } catch (err: any) {
-    console.error("Database error getting plan:", err);
-    return json({ error: "Failed to retrieve plan: " + err.message }, 500);
+class UpdateTask extends ApiRoute {
+  schema = {
+    tags: ["Tasks"],
+    summary: "Change some of a task's fields",
+    security: BEARER_AUTH,
+    request: { params: TaskIdParamsSchema, body: contentJson(TaskPatchSchema) },
+    responses: {
+      "200": { description: "The updated task", ...contentJson(TaskResultSchema) },
+      "404": { description: "No such task", ...contentJson(ErrorSchema) },
+      ...ERROR_RESPONSES,
+    },
+  };
+
+  async handle(c: AppContext) {
+    const { params, body } = await this.getValidatedData<typeof this.schema>();
+    return updateTask(c.req.raw, c.env, c.get("sql"), params.id, body, true);
   }
 }
 
-async function generatePlan(req: Request, env: Env, sql: Client) {
-  const userId = await getUserId(req, env);
-  
-  // Ensure the user exists in the users table before generating plan
-  try {
-    await sql.query(
-      `INSERT INTO users (id) VALUES ($1) ON CONFLICT (id) DO NOTHING`,
-      [userId]
-    );
-  } catch (err) {
-    console.error("Failed to create user record:", err);
-    // Continue anyway, the user might already exist
+class DeleteTask extends ApiRoute {
+  schema = {
+    tags: ["Tasks"],
+    summary: "Delete a task",
+    description: "Deleting one occurrence of a recurring task keeps it from being recreated.",
+    security: BEARER_AUTH,
+    request: { params: TaskIdParamsSchema },
+    responses: {
+      "200": { description: "The task was deleted", ...contentJson(OkSchema) },
+      "404": { description: "No such task", ...contentJson(ErrorSchema) },
+      ...ERROR_RESPONSES,
+    },
+  };
+
+  async handle(c: AppContext) {
+    const { params } = await this.getValidatedData<typeof this.schema>();
+    return deleteTask(c.req.raw, c.env, c.get("sql"), params.id);
   }
-  
-  // fetch prefs, tasks, events, weather, apod in parallel
-  const [{ rows: prefsRows }, { rows: taskRows }] = await Promise.all([
-    sql.query(`SELECT * FROM preferences WHERE user_id = $1`, [userId]),
-    sql.query(`SELECT * FROM tasks WHERE user_id = $1 AND task_date = CURRENT_DATE`, [userId]),
-  ]);
-  
-  const prefs = prefsRows[0];
-  const tasks = taskRows;
+}
 
-  // Check if user has preferences
-  if (!prefs) {
-    return json({ error: "User preferences not found. Please set up your preferences first." }, 400);
+class ListRecurringTasks extends ApiRoute {
+  schema = {
+    tags: ["Recurring tasks"],
+    summary: "List recurring task series",
+    security: BEARER_AUTH,
+    responses: { "200": { description: "The user's series, newest first", ...contentJson(RecurringTaskListSchema) }, ...ERROR_RESPONSES },
+  };
+
+  async handle(c: AppContext) {
+    return getRecurringTasks(c.req.raw, c.env, c.get("sql"));
   }
+}
 
-  // Check if user has tasks
-  if (!tasks || tasks.length === 0) {
-    return json({ error: "No tasks found for today. Please add some tasks first." }, 400);
+class CreateRecurringTask extends ApiRoute {
+  schema = {
+    tags: ["Recurring tasks"],
+    summary: "Create a recurring task series",
+    description: "Occurrences are created as ordinary tasks on the days the series falls on, when those days are listed or planned.",
+    security: BEARER_AUTH,
+    request: { body: contentJson(RecurringTaskInputSchema) },
+    responses: { "200": { description: "The created series", ...contentJson(RecurringTaskResultSchema) }, ...ERROR_RESPONSES },
+  };
+
+  async handle(c: AppContext) {
+    const { body } = await this.getValidatedData<typeof this.schema>();
+    return createRecurringTask(c.req.raw, c.env, c.get("sql"), body);
   }
+}
 
-  let weather = null;
-  let apod = null;
+class ReplaceRecurringTask extends ApiRoute {
+  schema = {
+    tags: ["Recurring tasks"],
+    summary: "Replace a series' fields",
+    description: "Occurrences that already exist as tasks keep their own values.",
+    security: BEARER_AUTH,
+    request: { params: RecurringTaskParamsSchema, body: contentJson(RecurringTaskInputSchema) },
+    responses: {
+      "200": { description: "The updated series", ...contentJson(RecurringTaskResultSchema) },
+      "404": { description: "No such series", ...contentJson(ErrorSchema) },
+      ...ERROR_RESPONSES,
+    },
+  };
 
-  try {
-    // Weather (with error handling)
-    if (prefs.city) {
-      const weatherRes = await fetch(
-        `https://api.openweathermap.org/data/2.5/weather?q=${prefs.city}&units=metric&appid=${env.OPENWEATHER_KEY}`
-      );
-      if (weatherRes.ok) {
-        weather = await weatherRes.json();
-      } else {
-        console.error("Weather API error:", weatherRes.status);
-        weather = { weather: [{ description: "unknown" }], main: { temp: 20 } };
-      }
-    } else {
-      weather = { weather: [{ description: "unknown" }], main: { temp: 20 } };
-    }
-  } catch (err) {
-    console.error("Weather fetch error:", err);
-    weather = { weather: [{ description: "unknown" }], main: { temp: 20 } };
+  async handle(c: AppContext) {
+    const { params, body } = await this.getValidatedData<typeof this.schema>();
+    return updateRecurringTask(c.req.raw, c.env, c.get("sql"), params.id, body, false);
   }
+}
 
-  try {
-    // NASA APOD (optional, with error handling)
-    const apodRes = await fetch(
-      `https://api.nasa.gov/planetary/apod?api_key=${env.NASA_KEY}`
-    );
-    if (apodRes.ok) {
-      apod = await apodRes.json();
-    }
-  } catch (err) {
-    console.error("NASA APOD fetch error:", err);
-    // Continue without APOD data
+class UpdateRecurringTask extends ApiRoute {
+  schema = {
+    tags: ["Recurring tasks"],
+    summary: "Change some of a series' fields",
+    description: "Occurrences that already exist as tasks keep their own values.",
+    security: BEARER_AUTH,
+    request: { params: RecurringTaskParamsSchema, body: contentJson(RecurringTaskPatchSchema) },
+    responses: {
+      "200": { description: "The updated series", ...contentJson(RecurringTaskResultSchema) },
+      "404": { description: "No such series", ...contentJson(ErrorSchema) },
+      ...ERROR_RESPONSES,
+    },
+  };
+
+  async handle(c: AppContext) {
+    const { params, body } = await this.getValidatedData<typeof this.schema>();
+    return updateRecurringTask(c.req.raw, c.env, c.get("sql"), params.id, body, true);
   }
+}
 
-  // Build prompt
-  const prompt = buildPrompt({ prefs, tasks, weather });
+class DeleteRecurringTask extends ApiRoute {
+  schema = {
+    tags: ["Recurring tasks"],
+    summary: "End a recurring task series",
+    description: "Unfinished occurrences from today on are removed; earlier ones stay as plain tasks.",
+    security: BEARER_AUTH,
+    request: { params: RecurringTaskParamsSchema },
+    responses: {
+      "200": { description: "The series was deleted", ...contentJson(OkSchema) },
+      "404": { description: "No such series", ...contentJson(ErrorSchema) },
+      ...ERROR_RESPONSES,
+    },
+  };
 
-  let plan = null;
-  try {
-    // Call MistralAI
-    const mistralRes = await fetch("https://api.mistral.ai/v1/chat/completions", {
-      method: "POST",
-      headers: {
-        "Content-Type": "application/json",
-        Authorization: `Bearer ${env.MISTRAL_API_KEY}`,
-      },
-      body: JSON.stringify({
-        model: "mistral-large-latest",
-        messages: [{ role: "user", content: prompt }],
-        max_tokens: 1000,
-        temperature: 0.7,
-      }),
-    });
+  async handle(c: AppContext) {
+    const { params } = await this.getValidatedData<typeof this.schema>();
+    return deleteRecurringTask(c.req.raw, c.env, c.get("sql"), params.id);
+  }
+}
 
-    if (!mistralRes.ok) {
-      throw new Error(`MistralAI API error: ${mistralRes.status} ${mistralRes.statusText}`);
-    }
+class GetPreferences extends ApiRoute {
+  schema = {
+    tags: ["Preferences"],
+    summary: "Get the user's preferences",
+    security: BEARER_AUTH,
+    responses: { "200": { description: "The preferences, or null before they are first saved", ...contentJson(PreferencesResultSchema) }, ...ERROR_RESPONSES },
+  };
 
-    const ai = await mistralRes.json() as { choices: Array<{ message: { content: string } }> };
-    
-    if (!ai.choices || !ai.choices[0] || !ai.choices[0].message) {
-      throw new Error("Invalid response from MistralAI");
-    }
+  async handle(c: AppContext) {
+    return getPreferences(c.req.raw, c.env, c.get("sql"));
+  }
+}
 
-    try {
-      const rawContent = ai.choices[0].message.content;
-      plan = parseAIResponse(rawContent);
-    } catch (parseErr) {
-      console.error("Failed to parse MistralAI response:", ai.choices[0].message.content);
-      throw new Error("Failed to parse AI response as JSON");
-    }
-  } catch (err: any) {
-    console.error("MistralAI error:", err);
-    return json({ error: "Failed to generate plan: " + err.message }, 500);
+class SavePreferences extends ApiRoute {
+  schema = {
+    tags: ["Preferences"],
+    summary: "Save the user's preferences",
+    security: BEARER_AUTH,
+    request: { body: contentJson(PreferencesSchema) },
+    responses: { "200": { description: "The preferences were saved", ...contentJson(OkSchema) }, ...ERROR_RESPONSES },
+  };
+
+  async handle(c: AppContext) {
+    const { body } = await this.getValidatedData<typeof this.schema>();
+    return savePreferences(c.req.raw, c.env, c.get("sql"), body);
   }
+}
 
-  try {
-    // Persist the plan
-    await sql.query(
-      `INSERT INTO plans (user_id, plan_date, plan_json)
-       VALUES ($1, CURRENT_DATE, $2)
-       ON CONFLICT (user_id, plan_date) DO UPDATE SET plan_json = EXCLUDED.plan_json`,
-      [userId, plan]
-    );
-  } catch (err) {
-    console.error("Failed to save plan:", err);
-    // Still return the plan even if saving fails
+class GetPlan extends ApiRoute {
+  schema = {
+    tags: ["Plan"],
+    summary: "Get the active plan for a day",
+    security: BEARER_AUTH,
+    request: { query: PlanDateQuerySchema },
+    responses: { "200": { description: "The plan, or null when none was generated", ...contentJson(PlanResultSchema) }, ...ERROR_RESPONSES },
+  };
+
+  async handle(c: AppContext) {
+    const { query } = await this.getValidatedData<typeof this.schema>();
+    return getPlan(c.req.raw, c.env, c.get("sql"), query.date);
   }
+}
 
-  return json({ plan, apod, weather });
+class GeneratePlan extends ApiRoute {
+  schema = {
+    tags: ["Plan"],
+    summary: "Plan today",
+    description: "Plans today's unfinished tasks around the user's preferences, calendars and the weather, and saves the result as a new plan version.",
+    security: BEARER_AUTH,
+    request: { query: PlanOptionsQuerySchema },
+    responses: { "200": { description: "The new plan", ...contentJson(GeneratedPlanSchema) }, ...RATE_LIMITED_RESPONSE, ...ERROR_RESPONSES },
+  };
+
+  async handle(c: AppContext) {
+    const { query } = await this.getValidatedData<typeof this.schema>();
+    return generatePlan(c.req.raw, c.env, c.get("sql"), query);
+  }
 }
 
-async function savePreferences(req: Request, env: Env, sql: Client) {
-  const userId = await getUserId(req, env);
-  
-  // Ensure the user exists in the users table before saving preferences
-  try {
-    await sql.query(
-      `INSERT INTO users (id) VALUES ($1) ON CONFLICT (id) DO NOTHING`,
-      [userId]
-    );
-  } catch (err) {
-    console.error("Failed to create user record:", err);
-    // Continue anyway, the user might already exist
+class StreamPlan extends ApiRoute {
+  schema = {
+    tags: ["Plan"],
+    summary: "Plan today, streaming progress",
+    description: "Same as POST /api/plan, sent as Server-Sent Events: context, block, summary, then saved or error.",
+    security: BEARER_AUTH,
+    request: { query: PlanOptionsQuerySchema },
+    responses: {
+      "200": { description: "An event stream", content: { "text/event-stream": { schema: z.string() } } },
+      ...RATE_LIMITED_RESPONSE,
+      ...ERROR_RESPONSES,
+    },
+  };
+
+  async handle(c: AppContext) {
+    const { query } = await this.getValidatedData<typeof this.schema>();
+    return streamPlan(c.req.raw, c.env, c.get("sql"), query, c.executionCtx);
   }
-  
-  let body;
-  try {
-    body = await req.json() as { 
-      wakeTime: string; 
-      sleepTime: string;
-      peakFocus: string;
-      city: string; 
-      breakStyle: string; 
-      breakInterval: number;
-      maxWorkHours: number;
-      commuteMode: string; 
-    };
-  } catch (err) {
-    return json({ error: "Invalid JSON in request body" }, 400);
+}
+
+class ReplanDay extends ApiRoute {
+  schema = {
+    tags: ["Plan"],
+    summary: "Re-plan the rest of today",
+    description: "Keeps what already happened and reschedules the open tasks from `now` with the local planner, saving the result as a new plan version.",
+    security: BEARER_AUTH,
+    request: { body: contentJson(ReplanRequestSchema) },
+    responses: {
+      "200": { description: "The new plan", ...contentJson(ReplanResultSchema) },
+      "404": { description: "No plan for today yet", ...contentJson(ErrorSchema) },
+      ...ERROR_RESPONSES,
+    },
+  };
+
+  async handle(c: AppContext) {
+    const { body } = await this.getValidatedData<typeof this.schema>();
+    return replanDay(c.req.raw, c.env, c.get("sql"), body);
   }
-  
-  const { wakeTime, sleepTime, peakFocus, city, breakStyle, breakInterval, maxWorkHours, commuteMode } = body;
-  
-  // Validate required fields
-  if (!wakeTime || !sleepTime || !peakFocus || !city || !breakStyle || breakInterval === undefined || maxWorkHours === undefined || !commuteMode) {
-    return json({ error: "All preference fields are required" }, 400);
+}
+
+class CheckInBlock extends ApiRoute {
+  schema = {
+    tags: ["Plan"],
+    summary: "Check in a schedule block",
+    description: "Records that a block was started, finished or skipped. Finishing every block of a task marks the task done.",
+    security: BEARER_AUTH,
+    request: { params: BlockParamsSchema, body: contentJson(BlockCheckInSchema) },
+    responses: {
+      "200": { description: "The updated block", ...contentJson(BlockCheckInResultSchema) },
+      "404": { description: "No such block", ...contentJson(ErrorSchema) },
+      ...ERROR_RESPONSES,
+    },
+  };
+
+  async handle(c: AppContext) {
+    const { params, body } = await this.getValidatedData<typeof this.schema>();
+    return checkInBlock(c.req.raw, c.env, c.get("sql"), params.id, body);
   }
-  
-  // Validate commute mode values (must match database check constraint)
-  const validCommuteModes = ['none', 'walk', 'bike', 'public', 'car'];
-  if (!validCommuteModes.includes(commuteMode)) {
-    return json({ error: `Invalid commute mode. Must be one of: ${validCommuteModes.join(', ')}` }, 400);
+}
+
+class ListPlanVersions extends ApiRoute {
+  schema = {
+    tags: ["Plan history"],
+    summary: "List the versions of a day's plan",
+    security: BEARER_AUTH,
+    request: { query: PlanDateQuerySchema },
+    responses: { "200": { description: "Every generated version, newest first", ...contentJson(PlanVersionListSchema) }, ...ERROR_RESPONSES },
+  };
+
+  async handle(c: AppContext) {
+    const { query } = await this.getValidatedData<typeof this.schema>();
+    return getPlanVersions(c.req.raw, c.env, c.get("sql"), query.date);
   }
-  
-  // Validate peak focus values (must match database check constraint)
-  const validPeakFocus = ['morning', 'afternoon', 'evening'];
-  if (!validPeakFocus.includes(peakFocus)) {
-    return json({ error: `Invalid peak focus. Must be one of: ${validPeakFocus.join(', ')}` }, 400);
+}
+
+class GetPlanVersion extends ApiRoute {
+  schema = {
+    tags: ["Plan history"],
+    summary: "Get one version of a day's plan",
+    security: BEARER_AUTH,
+    request: { params: PlanVersionParamsSchema, query: PlanDateQuerySchema },
+    responses: {
+      "200": { description: "The version with the inputs it was generated from", ...contentJson(PlanVersionSchema) },
+      "404": { description: "No such version", ...contentJson(ErrorSchema) },
+      ...ERROR_RESPONSES,
+    },
+  };
+
+  async handle(c: AppContext) {
+    const { params, query } = await this.getValidatedData<typeof this.schema>();
+    return getPlanVersion(c.req.raw, c.env, c.get("sql"), params.version, query.date);
   }
-  
-  // Validate time format (HH:MM)
-  const timeRegex = /^([0-1]?[0-9]|2[0-3]):[0-5][0-9]$/;
-  if (!timeRegex.test(wakeTime)) {
-    return json({ error: "Wake time must be in HH:MM format" }, 400);
+}
+
+class ActivatePlanVersion extends ApiRoute {
+  schema = {
+    tags: ["Plan history"],
+    summary: "Make a version the active plan",
+    description: "The active version is the one shown, exported and re-planned from.",
+    security: BEARER_AUTH,
+    request: { params: PlanVersionParamsSchema, query: PlanDateQuerySchema },
+    responses: {
+      "200": { description: "The plan now active", ...contentJson(ActivatedPlanSchema) },
+      "404": { description: "No such version", ...contentJson(ErrorSchema) },
+      ...ERROR_RESPONSES,
+    },
+  };
+
+  async handle(c: AppContext) {
+    const { params, query } = await this.getValidatedData<typeof this.schema>();
+    return activatePlanVersion(c.req.raw, c.env, c.get("sql"), params.version, query.date);
   }
-  if (!timeRegex.test(sleepTime)) {
-    return json({ error: "Sleep time must be in HH:MM format" }, 400);
+}
+
+class DiffPlanVersions extends ApiRoute {
+  schema = {
+    tags: ["Plan history"],
+    summary: "Compare two versions of a day's plan",
+    security: BEARER_AUTH,
+    request: { query: PlanDiffQuerySchema },
+    responses: {
+      "200": { description: "Blocks added, removed and moved between the versions", ...contentJson(PlanDiffResultSchema) },
+      "404": { description: "No such version", ...contentJson(ErrorSchema) },
+      ...ERROR_RESPONSES,
+    },
+  };
+
+  async handle(c: AppContext) {
+    const { query } = await this.getValidatedData<typeof this.schema>();
+    return diffPlanVersions(c.req.raw, c.env, c.get("sql"), query);
   }
-  
-  // Validate numeric values
-  if (typeof breakInterval !== 'number' || breakInterval <= 0) {
-    return json({ error: "Break interval must be a positive number" }, 400);
+}
+
+class ExportPlanCalendar extends ApiRoute {
+  schema = {
+    tags: ["Plan"],
+    summary: "Export plans as iCalendar",
+    description: "One day (`date`, default today) or an inclusive range (`from` and `to`). Subscription URLs authenticate with `token` instead of a bearer token.",
+    security: [...BEARER_AUTH, {}],
+    request: { query: PlanCalendarQuerySchema },
+    responses: {
+      "200": { description: "An .ics file", content: { "text/calendar": { schema: z.string() } } },
+      "401": { description: "Invalid calendar token", ...contentJson(ErrorSchema) },
+      ...ERROR_RESPONSES,
+    },
+  };
+
+  async handle(c: AppContext) {
+    const { query } = await this.getValidatedData<typeof this.schema>();
+    return exportPlanCalendar(c.req.raw, c.env, c.get("sql"), query);
   }
-  if (typeof maxWorkHours !== 'number' || maxWorkHours <= 0 || maxWorkHours > 24) {
-    return json({ error: "Max work hours must be between 1 and 24" }, 400);
+}
+
+class GetWeather extends ApiRoute {
+  schema = {
+    tags: ["Weather"],
+    summary: "Current weather in the user's city",
+    security: BEARER_AUTH,
+    responses: { "200": { description: "Current conditions", ...contentJson(WeatherSchema) }, ...RATE_LIMITED_RESPONSE, ...ERROR_RESPONSES },
+  };
+
+  async handle(c: AppContext) {
+    return getWeather(c.req.raw, c.env, c.get("sql"));
   }
-  
+}
+
+class GetApod extends ApiRoute {
+  schema = {
+    tags: ["Weather"],
+    summary: "NASA's astronomy picture of the day",
+    responses: { "200": { description: "Today's picture", ...contentJson(ApodSchema) }, ...RATE_LIMITED_RESPONSE, ...ERROR_RESPONSES },
+  };
+
+  async handle(c: AppContext) {
+    return getApod(c.req.raw, c.env, c.get("sql"));
+  }
+}
+
+class ListReminderChannels extends ApiRoute {
+  schema = {
+    tags: ["Reminders"],
+    summary: "List where reminders are delivered",
+    security: BEARER_AUTH,
+    responses: { "200": { description: "The user's channels", ...contentJson(ReminderChannelListSchema) }, ...ERROR_RESPONSES },
+  };
+
+  async handle(c: AppContext) {
+    return getReminderChannels(c.req.raw, c.env, c.get("sql"));
+  }
+}
+
+class CreateReminderChannel extends ApiRoute {
+  schema = {
+    tags: ["Reminders"],
+    summary: "Add a reminder channel",
+    description: "A webhook URL, a Web Push subscription or an email address. Adding one that exists already returns it unchanged.",
+    security: BEARER_AUTH,
+    request: { body: contentJson(ReminderChannelInputSchema) },
+    responses: { "200": { description: "The channel", ...contentJson(ReminderChannelResultSchema) }, ...ERROR_RESPONSES },
+  };
+
+  async handle(c: AppContext) {
+    const { body } = await this.getValidatedData<typeof this.schema>();
+    return createReminderChannel(c.req.raw, c.env, c.get("sql"), body);
+  }
+}
+
+class DeleteReminderChannel extends ApiRoute {
+  schema = {
+    tags: ["Reminders"],
+    summary: "Remove a reminder channel",
+    security: BEARER_AUTH,
+    request: { params: ReminderChannelParamsSchema },
+    responses: {
+      "200": { description: "The channel was removed", ...contentJson(OkSchema) },
+      "404": { description: "No such channel", ...contentJson(ErrorSchema) },
+      ...ERROR_RESPONSES,
+    },
+  };
+
+  async handle(c: AppContext) {
+    const { params } = await this.getValidatedData<typeof this.schema>();
+    return deleteReminderChannel(c.req.raw, c.env, c.get("sql"), params.id);
+  }
+}
+
+class TestReminders extends ApiRoute {
+  schema = {
+    tags: ["Reminders"],
+    summary: "Send a test reminder to every channel",
+    description: "Ignores quiet hours. Channels whose destination no longer exists are removed.",
+    security: BEARER_AUTH,
+    responses: { "200": { description: "What happened on each channel", ...contentJson(ReminderTestResultSchema) }, ...ERROR_RESPONSES },
+  };
+
+  async handle(c: AppContext) {
+    return testReminders(c.req.raw, c.env, c.get("sql"));
+  }
+}
+
+// Helper: mount a handler that reads the request itself
+const raw = (handler: (req: Request, env: Env, sql: Db) => Promise<Response>) =>
+  (c: AppContext) => handler(c.req.raw, c.env, c.get("sql"));
+
+const app = new Hono<AppEnv>();
+const openapi = fromHono(app, {
+  docs_url: "/docs",
+  redoc_url: null,
+  openapi_url: "/openapi.json",
+  schema: { info: { title: "PlanMyDay API", version: "1.0.0" } },
+});
+openapi.registry.registerComponent("securitySchemes", "bearerAuth", { type: "http", scheme: "bearer", bearerFormat: "Clerk session JWT" });
+
+// Handle CORS preflight requests
+app.options("*", () => corsResponse());
+
+// Set once this Worker instance has brought the schema up to date (AUTO_MIGRATE)
+let migrated: Promise<unknown> | null = null;
+
+// Helper: apply pending migrations once per Worker instance; a failure is retried on the next request
+function ensureMigrated(sql: Db) {
+  if (!migrated) {
+    migrated = migrate(sql).catch((err) => {
+      migrated = null;
+      throw err;
+    });
+  }
+  return migrated;
+}
+
+// The handle connects lazily: routes that never query don't touch the database
+app.use("/api/*", async (c, next) => {
+  const sql = createDb(c.env.NEON_DATABASE_URL);
+  c.set("sql", sql);
+  try {
+    if (c.env.AUTO_MIGRATE === "true") {
+      await ensureMigrated(sql);
+    }
+    await next();
+  } finally {
+    // Close the pool, if a transaction opened one
+    try {
+      await sql.end();
+    } catch (err) {
+      console.error("Error closing database connection:", err);
+    }
+  }
+});
+
+// Helper: the rate limit key and plan tier for a request. Signed-in callers
+// are limited per user and plan tier, anonymous ones per IP.
+async function rateLimitCaller(req: Request, env: Env, sql: Db) {
+  if (!req.headers.get("Authorization")) {
+    return { key: `ip:${req.headers.get("CF-Connecting-IP") || "unknown"}`, tier: "free" };
+  }
+  const userId = await getUserId(req, env);
+  let tier = "free";
+  try {
+    const { rows } = await sql.query(`SELECT plan_tier FROM users WHERE id = $1`, [userId]);
+    tier = rows[0]?.plan_tier || "free";
+  } catch (err) {
+    console.error("Failed to read plan tier, limiting as free:", err);
+  }
+  return { key: `user:${userId}`, tier };
+}
+
+// Helper: middleware counting a request against the caller's limits in
+// `bucket`; over the limit it answers 429 instead of running the route.
+// If the counters can't be reached the request is let through.
+function rateLimited(bucket: RateLimitBucket) {
+  return async (c: AppContext, next: Next) => {
+    const sql = c.get("sql");
+    const { key, tier } = await rateLimitCaller(c.req.raw, c.env, sql);
+    const limits = rateLimitsFor(c.env, tier, bucket);
+    if (!limits.length) {
+      return next();
+    }
+    let result;
+    try {
+      result = await consumeRateLimit(sql, key, bucket, limits);
+    } catch (err) {
+      console.error("Rate limit check failed, letting the request through:", err);
+      return next();
+    }
+    
+    const headers = rateLimitHeaders(result);
+    if (!result.allowed) {
+      const res = json({
+        error: `Rate limit exceeded: ${result.limit} ${bucket} requests per ${result.windowSeconds} seconds. Try again in ${result.resetSeconds} seconds.`,
+      }, 429);
+      Object.entries(headers).forEach(([name, value]) => res.headers.set(name, value));
+      return res;
+    }
+    
+    await next();
+    Object.entries(headers).forEach(([name, value]) => c.res.headers.set(name, value));
+  };
+}
+
+app.onError((err) => {
+  console.error("Request error:", err);
+  return json({ error: err.message || "Server error" }, 500);
+});
+app.notFound(() => json({ error: "Not found" }, 404));
+
+// The Worker answers even when the database is down; `database` says whether it is reachable
+app.get("/health", async (c) => {
+  const database = await checkDb(createDb(c.env.NEON_DATABASE_URL));
+  return json({ status: database.reachable ? "ok" : "degraded", timestamp: new Date().toISOString(), database });
+});
+app.get("/", () => json({ status: "Server Running", message:"Can't access backend directly.", timestamp: new Date().toISOString() }));
+
+// Routes that call paid or quota-limited upstream APIs
+app.post("/api/plan", rateLimited("plan"));
+app.post("/api/plan/stream", rateLimited("plan"));
+app.get("/api/weather", rateLimited("proxy"));
+app.get("/api/apod", rateLimited("proxy"));
+
+openapi.get("/api/tasks", ListTasks);
+openapi.post("/api/tasks", CreateTask);
+openapi.post("/api/tasks/parse", ParseTask);
+openapi.post("/api/tasks/import", ImportTasks);
+openapi.get("/api/tasks/export", ExportTasks);
+openapi.put("/api/tasks/:id", ReplaceTask);
+openapi.patch("/api/tasks/:id", UpdateTask);
+openapi.delete("/api/tasks/:id", DeleteTask);
+openapi.post("/api/recurring-tasks", CreateRecurringTask);
+openapi.get("/api/recurring-tasks", ListRecurringTasks);
+openapi.put("/api/recurring-tasks/:id", ReplaceRecurringTask);
+openapi.patch("/api/recurring-tasks/:id", UpdateRecurringTask);
+openapi.delete("/api/recurring-tasks/:id", DeleteRecurringTask);
+openapi.post("/api/preferences", SavePreferences);
+openapi.get("/api/preferences", GetPreferences);
+openapi.get("/api/reminders/channels", ListReminderChannels);
+openapi.post("/api/reminders/channels", CreateReminderChannel);
+openapi.delete("/api/reminders/channels/:id", DeleteReminderChannel);
+openapi.post("/api/reminders/test", TestReminders);
+openapi.post("/api/plan", GeneratePlan);
+openapi.get("/api/plan", GetPlan);
+openapi.post("/api/plan/stream", StreamPlan);
+openapi.post("/api/plan/replan", ReplanDay);
+openapi.patch("/api/plan/blocks/:id", CheckInBlock);
+openapi.get("/api/plan/versions", ListPlanVersions);
+openapi.get("/api/plan/versions/:version", GetPlanVersion);
+openapi.post("/api/plan/versions/:version/activate", ActivatePlanVersion);
+openapi.get("/api/plan/diff", DiffPlanVersions);
+openapi.get("/api/plan.ics", ExportPlanCalendar);
+app.post("/api/calendar/token", raw(createCalendarToken));
+app.delete("/api/calendar/token", raw(revokeCalendarToken));
+app.post("/api/calendar/import", raw(importCalendar));
+app.get("/api/calendar/feeds", raw(getCalendarFeeds));
+app.delete("/api/calendar/feeds/:id", raw(deleteCalendarFeed));
+app.get("/api/stats", raw(getStats));
+openapi.get("/api/weather", GetWeather);
+openapi.get("/api/apod", GetApod);
+app.get("/api/me/export", raw(exportAccount));
+app.delete("/api/me", raw(deleteAccount));
+app.post("/api/webhooks/clerk", raw(clerkWebhook));
+app.get("/api/admin/migrations", raw(getMigrations));
+app.post("/api/admin/migrations", raw(runMigrations));
+app.put("/api/admin/users/:id/tier", raw(setUserTier));
+
+export default {
+  fetch: app.fetch,
+  // Cron trigger (see wrangler.jsonc): block reminders and evening digests
+  scheduled(controller, env, ctx) {
+    ctx.waitUntil(sendReminders(env, new Date(controller.scheduledTime)));
+  },
+} satisfies ExportedHandler<Env>;
+
+// --- Handlers --------------------------------------------------
+async function createTask(req: Request, env: Env, sql: Db, body: TaskInput) {
+  const userId = await getUserId(req, env);
+  
+  const validation = validateTaskInput(body, false);
+  if ("error" in validation) {
+    return json({ error: validation.error }, 400);
+  }
+  const {
+    title, duration_minutes, importance, status = "todo", task_date,
+    fixed_start = null, deadline = null, depends_on = [], location = null,
+  } = validation.fields;
+  
+  const dependencyError = await checkTaskDependencies(sql, userId, null, depends_on);
+  if (dependencyError) {
+    return json({ error: dependencyError }, 400);
+  }
+  
+  try {
+    // Without a date the task is for the user's today; an explicit null puts it in the backlog
+    const { today } = await getUserClock(sql, userId);
+    const task = await sql.transaction(async (tx) => {
+      await ensureUser(tx, userId);
+      const { rows } = await tx.query(
+        `INSERT INTO tasks (user_id, title, duration_minutes, importance, status, task_date, completed_at, fixed_start, deadline, depends_on, location)
+         VALUES ($1, $2, $3, $4, $5, $6, CASE WHEN $5 = 'done' THEN NOW() END, $7, $8, $9, $10)
+         RETURNING ${TASK_COLUMNS}`,
+        [userId, title, duration_minutes, importance, status, task_date === undefined ? today : task_date, fixed_start, deadline, depends_on, location]
+      );
+      return rows[0];
+    });
+    const model = await loadDurationModel(sql, userId, today);
+    return json({ ok: true, message: "Task created successfully", task: toTaskResponse(task, model) });
+  } catch (err: any) {
+    console.error("Database error creating task:", err);
+    return json({ error: "Failed to create task: " + err.message }, 500);
+  }
+}
+
+/**
+ * Quick add: parse free text into task fields, optionally asking the LLM
+ * about what the parser was unsure of, and with `create` save the task.
+ * Relative dates count from today in the user's timezone.
+ */
+async function parseTask(req: Request, env: Env, sql: Db, body: QuickAddInput) {
+  const userId = await getUserId(req, env);
+  
+  let today: string;
+  try {
+    ({ today } = await getUserClock(sql, userId));
+  } catch (err: any) {
+    console.error("Database error parsing task:", err);
+    return json({ error: "Failed to parse task: " + err.message }, 500);
+  }
+  
+  let parsed = parseQuickAdd(body.text, today);
+  let engine = "local";
+  let fallbackReason: string | undefined;
+  if (body.ai && parsed.ambiguous.length) {
+    try {
+      // Over the caller's "ai" limit the local parse is returned, like any other AI failure
+      const { key, tier } = await rateLimitCaller(req, env, sql);
+      const limits = rateLimitsFor(env, tier, "ai");
+      const limit = limits.length
+        ? await consumeRateLimit(sql, key, "ai", limits).catch((err) => {
+            console.error("Rate limit check failed, letting the request through:", err);
+            return null;
+          })
+        : null;
+      if (limit && !limit.allowed) {
+        throw new Error(`Rate limit exceeded: ${limit.limit} ai requests per ${limit.windowSeconds} seconds. Try again in ${limit.resetSeconds} seconds.`);
+      }
+      const provider = createProvider(env);
+      const answer = parseAIResponse(await provider.chat([{ role: "user", content: quickAddPrompt(parsed, today) }]));
+      parsed = mergeAIFields(parsed, answer);
+      engine = provider.name;
+    } catch (err: any) {
+      console.error("AI quick add failed, using the local parse:", err);
+      fallbackReason = err.message;
+    }
+  }
+  const result = { ...parsed, engine, ...(fallbackReason && { fallbackReason }) };
+  
+  if (!body.create) {
+    return json(result);
+  }
+  
+  const { title, duration, importance, date, deadline, fixedStart } = parsed.fields;
+  if (!title.value) {
+    return json({ error: "Couldn't find a task title in the text", ...result }, 400);
+  }
+  const created = await createTask(req, env, sql, {
+    title: title.value,
+    duration: duration.value,
+    importance: importance.value,
+    date: date.value,
+    deadline: deadline.value,
+    fixedStart: fixedStart.value,
+  });
+  if (!created.ok) {
+    return created;
+  }
+  const { task } = await created.json() as { task: unknown };
+  return json({ ...result, task });
+}
+
+async function updateTask(req: Request, env: Env, sql: Db, taskId: string, body: TaskInput, partial: boolean) {
+  const userId = await getUserId(req, env);
+  
+  // PUT replaces the editable fields, PATCH changes only the fields it is given
+  const validation = validateTaskInput(body, partial);
+  if ("error" in validation) {
+    return json({ error: validation.error }, 400);
+  }
+  
+  const fields: Record<string, any> = { ...validation.fields };
+  if (fields.depends_on !== undefined) {
+    const dependencyError = await checkTaskDependencies(sql, userId, taskId, fields.depends_on);
+    if (dependencyError) {
+      return json({ error: dependencyError }, 400);
+    }
+  }
+  if (fields.status !== undefined) {
+    fields.completed_at = fields.status === "done" ? new Date().toISOString() : null;
+  }
+  const columns = Object.keys(fields).filter((column) => fields[column] !== undefined);
+  if (!columns.length) {
+    return json({ error: "No task fields to update" }, 400);
+  }
+  
+  try {
+    const { rows } = await sql.query(
+      `UPDATE tasks SET ${columns.map((column, i) => `${column} = $${i + 3}`).join(", ")}
+       WHERE id = $1 AND user_id = $2
+       RETURNING ${TASK_COLUMNS}`,
+      [taskId, userId, ...columns.map((column) => fields[column])]
+    );
+    
+    if (!rows.length) {
+      return json({ error: "Task not found or not authorized to update" }, 404);
+    }
+    
+    return json({ ok: true, message: "Task updated successfully", task: toTaskResponse(rows[0]) });
+  } catch (err: any) {
+    console.error("Database error updating task:", err);
+    return json({ error: "Failed to update task: " + err.message }, 500);
+  }
+}
+
+// The active plan for `?date=YYYY-MM-DD` (default today)
+async function getPlan(req: Request, env: Env, sql: Db, date?: string) {
+  const userId = await getUserId(req, env);
+  
+  try {
+    const { today } = await getUserClock(sql, userId);
+    const { rows } = await sql.query(
+      `SELECT plan_json, violations, active_version FROM plans WHERE user_id = $1 AND plan_date = $2`,
+      [userId, date || today]
+    );
+    
+    if (!rows.length) {
+      return json({ plan: null, message: date ? `No plan found for ${date}` : "No plan found for today" });
+    }
+    
+    return json({ plan: rows[0].plan_json, violations: rows[0].violations || [], version: rows[0].active_version });
+  } catch (err: any) {
+    console.error("Database error getting plan:", err);
+    return json({ error: "Failed to retrieve plan: " + err.message }, 500);
+  }
+}
+
+async function generatePlan(req: Request, env: Env, sql: Db, options: PlanOptions) {
+  const inputs = await loadPlanInputs(req, env, sql, options);
+  if (inputs instanceof Response) {
+    return inputs;
+  }
+  
+  const [weather, forecast, apod] = await Promise.all([
+    fetchPlanWeather(env, sql, inputs.context.prefs),
+    fetchForecast(env, sql, inputs.context.prefs, inputs.today, inputs.timezone),
+    fetchApod(env, sql),
+  ]);
+  const result = await buildDayPlan(inputs, weather.data, forecast.data, env, sql);
+  
+  return json({
+    ...result,
+    apod: apod.data,
+    weather: weather.data,
+    estimates: inputs.estimates,
+    cache: { weather: weather.cache, forecast: forecast.cache, apod: apod.cache },
+  });
+}
+
+/**
+ * Same inputs and result as POST /api/plan, sent as Server-Sent Events while
+ * the plan is built:
+ *   context  weather, its cache state and what is being planned, once gathered
+ *   block    each schedule block as soon as the model has written it
+ *   summary  the plan's summary
+ *   saved    the final plan (after repairs or fallback), violations and version
+ *   error    generation failed; nothing was saved
+ * Streamed blocks are provisional: the plan in "saved" is the one that counts.
+ * Generation carries on, and the plan is saved, if the client disconnects.
+ */
+async function streamPlan(req: Request, env: Env, sql: Db, options: PlanOptions, ctx: ExecutionContext) {
+  const inputs = await loadPlanInputs(req, env, sql, options);
+  if (inputs instanceof Response) {
+    return inputs;
+  }
+  
+  const { readable, writable } = new TransformStream();
+  const writer = writable.getWriter();
+  const encoder = new TextEncoder();
+  // Writes fail once the client has gone away; there is nobody left to tell
+  const send = (event: string, data: unknown) =>
+    writer.write(encoder.encode(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`)).catch(() => {});
+  
+  // The dispatcher closes the pool behind `sql` as soon as this handler
+  // returns, so saving at the end of the stream uses a handle of its own
+  const run = async () => {
+    const saveSql = createDb(env.NEON_DATABASE_URL);
+    try {
+      const [weather, forecast, apod] = await Promise.all([
+        fetchPlanWeather(env, saveSql, inputs.context.prefs),
+        fetchForecast(env, saveSql, inputs.context.prefs, inputs.today, inputs.timezone),
+        fetchApod(env, saveSql),
+      ]);
+      await send("context", {
+        weather: weather.data,
+        forecast: forecast.data,
+        apod: apod.data,
+        cache: { weather: weather.cache, forecast: forecast.cache, apod: apod.cache },
+        date: inputs.today,
+        taskCount: inputs.context.tasks.length,
+        eventCount: inputs.context.events.length,
+      });
+      
+      let streamed = 0;
+      const parser = createBlockParser((block, index) => {
+        streamed++;
+        send("block", { index, block });
+      });
+      const result = await buildDayPlan(inputs, weather.data, forecast.data, env, saveSql, (text) => parser.push(text));
+      if (!streamed) {
+        // The local planner (or a model that wrote nothing usable) streamed no blocks
+        result.plan.schedule.forEach((block, index) => send("block", { index, block }));
+      }
+      await send("summary", { summary: result.plan.summary });
+      await send("saved", { ...result, estimates: inputs.estimates });
+    } catch (err: any) {
+      console.error("Streaming plan generation failed:", err);
+      await send("error", { error: err.message || "Plan generation failed" });
+    } finally {
+      await writer.close().catch(() => {});
+      try {
+        await saveSql.end();
+      } catch (err) {
+        console.error("Error closing database connection:", err);
+      }
+    }
+  };
+  // Keep the Worker alive until the plan is saved and the pool closed, even
+  // after the response has been handed back
+  ctx.waitUntil(run());
+  
+  return new Response(readable, {
+    status: 200,
+    headers: {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache",
+      "Access-Control-Allow-Origin": "*",
+      "Access-Control-Allow-Methods": "GET, POST, PUT, PATCH, DELETE, OPTIONS",
+      "Access-Control-Allow-Headers": "Content-Type, Authorization",
+      "Access-Control-Expose-Headers": EXPOSED_HEADERS,
+    },
+  });
+}
+
+// What a plan is generated from, gathered by loadPlanInputs
+interface PlanInputs {
+  userId: string;
+  requestedEngine: string;
+  estimates: string;
+  timezone: string;
+  today: string;
+  context: PlanContext;
+}
+
+// Helper: roll over and materialize today's tasks, and load everything the
+// planners need. Returns an error response when there is nothing to plan.
+async function loadPlanInputs(req: Request, env: Env, sql: Db, options: PlanOptions): Promise<PlanInputs | Response> {
+  const userId = await getUserId(req, env);
+  const { engine: requestedEngine, estimates } = options;
+  
+  const { timezone, today } = await getUserClock(sql, userId);
+  // Today's task list is settled in one go, so a failure leaves it as it was
+  await sql.transaction(async (tx) => {
+    await ensureUser(tx, userId);
+    await rollOverUnfinishedTasks(tx, userId, today);
+    await materializeRecurringTasks(tx, userId, today);
+  });
+  
+  // fetch prefs, tasks and events in parallel
+  const [{ rows: prefsRows }, { rows: taskRows }, events] = await Promise.all([
+    sql.query(`SELECT * FROM preferences WHERE user_id = $1`, [userId]),
+    sql.query(
+      `SELECT * FROM tasks WHERE user_id = $1 AND task_date = $2 AND status = ANY($3)`,
+      [userId, today, UNFINISHED_STATUSES]
+    ),
+    loadCalendarBlocks(sql, userId, today, timezone),
+  ]);
+  
+  const prefs = prefsRows[0];
+  let tasks = taskRows;
+
+  // Check if user has preferences
+  if (!prefs) {
+    return json({ error: "User preferences not found. Please set up your preferences first." }, 400);
+  }
+
+  // Check if user has tasks
+  if (!tasks || tasks.length === 0) {
+    return json({ error: "No tasks found for today. Please add some tasks first." }, 400);
+  }
+
+  if (estimates === "learned") {
+    // Plan with the durations the user's history suggests instead of the entered ones
+    const model = await loadDurationModel(sql, userId, today);
+    tasks = tasks.map((t) => ({ ...t, duration_minutes: suggestDuration(model, t).minutes }));
+  }
+
+  return { userId, requestedEngine, estimates, timezone, today, context: { prefs, tasks, events } };
+}
+
+// Helper: OpenWeather's current conditions for a city, cached per city
+function loadCurrentWeather(env: Env, sql: Db, city: string) {
+  return cached(sqlCacheStore(sql), `weather:current:${city.trim().toLowerCase()}`, WEATHER_CACHE_TTL, async () => {
+    const weatherRes = await fetch(
+      `https://api.openweathermap.org/data/2.5/weather?q=${encodeURIComponent(city)}&units=metric&appid=${env.OPENWEATHER_KEY}`
+    );
+    if (!weatherRes.ok) {
+      throw new Error(`Weather API error: ${weatherRes.status}`);
+    }
+    return await weatherRes.json() as any;
+  });
+}
+
+// Helper: NASA's picture of the day, cached per publication date
+function loadApod(env: Env, sql: Db) {
+  const date = localDate(APOD_TIMEZONE);
+  return cached(sqlCacheStore(sql), `apod:${date}`, APOD_CACHE_TTL, async () => {
+    const apodRes = await fetch(
+      `https://api.nasa.gov/planetary/apod?api_key=${env.NASA_KEY}`
+    );
+    if (!apodRes.ok) {
+      throw new Error(`NASA APOD API error: ${apodRes.status}`);
+    }
+    return await apodRes.json() as any;
+  });
+}
+
+// Helper: current weather for the user's city, or a neutral placeholder when unavailable
+async function fetchPlanWeather(env: Env, sql: Db, prefs: any): Promise<{ data: any; cache: CacheInfo | null }> {
+  const unknown = { data: { weather: [{ description: "unknown" }], main: { temp: 20 } }, cache: null };
+  if (!prefs.city) {
+    return unknown;
+  }
+  try {
+    return await loadCurrentWeather(env, sql, prefs.city);
+  } catch (err) {
+    console.error("Weather fetch error:", err);
+    return unknown;
+  }
+}
+
+// Helper: hourly forecast for the plan date, or null when there is no city or the provider fails
+async function fetchForecast(
+  env: Env,
+  sql: Db,
+  prefs: any,
+  date: string,
+  timezone: string
+): Promise<{ data: HourlyForecast[] | null; cache: CacheInfo | null }> {
+  if (!prefs.city) {
+    return { data: null, cache: null };
+  }
+  try {
+    const provider = createWeatherProvider(env);
+    const key = `weather:forecast:${provider.name}:${prefs.city.trim().toLowerCase()}:${date}:${timezone}`;
+    const { data, cache } = await cached(sqlCacheStore(sql), key, FORECAST_CACHE_TTL, () =>
+      provider.forecast(prefs.city, date, timezone)
+    );
+    return { data: data.length ? data : null, cache };
+  } catch (err) {
+    console.error("Forecast fetch error:", err);
+    return { data: null, cache: null };
+  }
+}
+
+// Helper: NASA's picture of the day; optional, so null on any failure
+async function fetchApod(env: Env, sql: Db): Promise<{ data: any; cache: CacheInfo | null }> {
+  try {
+    return await loadApod(env, sql);
+  } catch (err) {
+    console.error("NASA APOD fetch error:", err);
+    return { data: null, cache: null };
+  }
+}
+
+/**
+ * Plan the day with the requested engine, falling back to the local planner
+ * when the AI fails or breaks a hard constraint, then save it as a new
+ * version. Outdoor tasks are steered into the forecast's dry, comfortable
+ * hours, and the plan explains its weather-driven choices in `weatherNotes`.
+ * `onDelta` receives the AI's first answer as it streams in.
+ */
+async function buildDayPlan(
+  inputs: PlanInputs,
+  weather: any,
+  forecast: HourlyForecast[] | null,
+  env: Env,
+  sql: Db,
+  onDelta?: (text: string) => void
+) {
+  const { userId, requestedEngine, timezone, today } = inputs;
+  const { prefs, tasks, events } = inputs.context;
+  const windows = forecast ? outdoorWindows(forecast) : undefined;
+  const context: PlanContext = { ...inputs.context, outdoorWindows: windows };
+  
+  let plan: (DayPlan & { engine?: string; date?: string; timezone?: string }) | null = null;
+  let violations: PlanViolation[] = [];
+  let attempts = 0;
+  let engine = requestedEngine;
+  let fallbackReason: string | undefined;
+  let prompt: string | null = null;
+
+  if (requestedEngine !== "local") {
+    try {
+      const provider = createProvider(env);
+      engine = provider.name;
+      prompt = buildPrompt({ prefs, tasks, weather, events, forecast, outdoorWindows: windows });
+      ({ plan, violations, attempts } = await generateAIPlan(prompt, context, provider, onDelta));
+      
+      // Reject plans that still ignore fixed times, deadlines or task order; the local scheduler honors them
+      const hard = violations.filter((v) => HARD_VIOLATIONS.includes(v.code));
+      if (hard.length) {
+        console.error("AI plan rejected for hard constraint violations:", hard);
+        fallbackReason = `AI plan broke fixed times, deadlines or task order: ${hard.map((v) => v.message).join('; ')}`;
+        plan = null;
+      }
+    } catch (err: any) {
+      console.error("AI provider error, falling back to local scheduler:", err);
+      fallbackReason = err.message;
+    }
+  }
+
+  if (!plan) {
+    plan = buildLocalPlan(prefs, tasks, { events, outdoorWindows: windows });
+    violations = validatePlan(plan, prefs, tasks, { outdoorWindows: windows });
+    engine = "local";
+  }
+  const stamped = {
+    ...stampBlocks(plan, today, timezone),
+    ...describeWeatherChoices(plan, tasks, forecast, prefs.commute_mode),
+    engine,
+    date: today,
+    timezone,
+    breakStrategy: breakStrategyFor(prefs),
+  };
+
+  let version: number | null = null;
+  try {
+    version = await sql.transaction((tx) =>
+      savePlanVersion(tx, userId, today, stamped, violations, { engine, prompt, weather: { ...weather, hourly: forecast } })
+    );
+  } catch (err) {
+    console.error("Failed to save plan:", err);
+    // Still return the plan even if saving fails
+  }
+
+  return { plan: stamped, engine, violations, attempts, version, ...(fallbackReason && { fallbackReason }) };
+}
+
+/**
+ * Re-plan the rest of today after things ran late. Body:
+ * `{ now?: "HH:MM", completed?: Array<string | number> }` where `completed`
+ * lists blocks of the active plan that were finished, by block ID or (for
+ * older clients) index, all of which must have started before `now` (default:
+ * the user's current local time, nothing completed). Blocks already checked in
+ * as finished count as completed too. Blocks that started before `now` stay,
+ * cut off at `now`, except task blocks not completed; the tasks still open are
+ * rescheduled by the local planner between `now` and sleep time, and the ones
+ * that no longer fit are reported.
+ */
+async function replanDay(req: Request, env: Env, sql: Db, body: ReplanInput) {
+  const userId = await getUserId(req, env);
+  const { now, completed = [] } = body;
+  
+  try {
+    const { timezone, today } = await getUserClock(sql, userId);
+    const currentTime = now || formatTime(zonedParts(new Date(), timezone).minutes);
+    
+    const [{ rows: planRows }, { rows: prefsRows }, { rows: taskRows }, events] = await Promise.all([
+      sql.query(`SELECT plan_json FROM plans WHERE user_id = $1 AND plan_date = $2`, [userId, today]),
+      sql.query(`SELECT * FROM preferences WHERE user_id = $1`, [userId]),
+      sql.query(
+        `SELECT * FROM tasks WHERE user_id = $1 AND task_date = $2 AND status = ANY($3)`,
+        [userId, today, UNFINISHED_STATUSES]
+      ),
+      loadCalendarBlocks(sql, userId, today, timezone),
+    ]);
+    
+    if (!planRows.length) {
+      return json({ error: "No plan found for today. Generate one first." }, 404);
+    }
+    const prefs = prefsRows[0];
+    const current: { schedule: StoredBlock[] } = planRows[0].plan_json;
+    const given: number[] = [];
+    for (const item of completed) {
+      const index = typeof item === "string" ? current.schedule.findIndex((block) => block.id === item) : (item as number);
+      if (index === -1 || index >= current.schedule.length) {
+        return json({ error: typeof item === "string" ? `No block with ID ${item} in today's plan` : `completed block indexes must be below ${current.schedule.length}` }, 400);
+      }
+      given.push(index);
+    }
+    
+    // Compare in minutes from the start of the plan day: blocks roll past
+    // midnight in schedule order, and `now` does when sleep time is after midnight
+    const wake = toMinutes(prefs?.wake_time, "09:00");
+    const wrapsMidnight = toMinutes(prefs?.sleep_time, "23:00") <= wake;
+    const nowMinutes = toMinutes(currentTime, "00:00") + (wrapsMidnight && toMinutes(currentTime, "00:00") < wake ? 24 * 60 : 0);
+    let dayOffset = 0;
+    let previous = -1;
+    const starts = current.schedule.map((block) => {
+      const minutes = toMinutes(block.time, "00:00");
+      if (minutes < previous) dayOffset += 24 * 60;
+      previous = minutes;
+      return minutes + dayOffset;
+    });
+    const notStarted = given.find((index) => starts[index] >= nowMinutes);
+    if (notStarted !== undefined) {
+      return json({ error: `completed block ${completed[given.indexOf(notStarted)]} starts at ${current.schedule[notStarted].time}, which is not before now (${currentTime})` }, 400);
+    }
+    // Check-ins count whether or not the client lists them
+    const completedIndexes = new Set(given);
+    current.schedule.forEach((block, index) => {
+      if (block.status === "finished") completedIndexes.add(index);
+    });
+    
+    // Blocks that started before now stay, cut off at now if still running.
+    // Task blocks only stay when completed; the time left on their task is
+    // planned again from now.
+    const past: ScheduleBlock[] = [];
+    current.schedule.forEach((block, index) => {
+      if (starts[index] >= nowMinutes || (block.type === "task" && !completedIndexes.has(index))) {
+        return;
+      }
+      const duration = Math.min(Number(block.duration), nowMinutes - starts[index]);
+      past.push(duration === Number(block.duration) ? block : { ...block, duration: String(duration) });
+    });
+    
+    // Finished blocks complete their task, or shorten it when the task was split
+    const doneMinutes = new Map<string, number>();
+    for (const index of completedIndexes) {
+      const block = current.schedule[index];
+      if (block.type === "task" && block.taskId !== undefined) {
+        doneMinutes.set(block.taskId, (doneMinutes.get(block.taskId) || 0) + Number(block.duration));
+      }
+    }
+    const finished = taskRows.filter((t) => (doneMinutes.get(String(t.id)) || 0) >= t.duration_minutes);
+    const tasks = taskRows
+      .filter((t) => !finished.includes(t))
+      .map((t) => ({ ...t, duration_minutes: t.duration_minutes - (doneMinutes.get(String(t.id)) || 0) }));
+    
+    const { plan: replanned, skipped } = planDay(prefs, tasks, { events, from: currentTime, keep: past });
+    const violations = validatePlan(replanned, prefs, tasks);
+    const plan = { ...stampBlocks(replanned, today, timezone), engine: "local", date: today, timezone, breakStrategy: breakStrategyFor(prefs) };
+    // Completed tasks are only marked done along with the plan that shows them
+    const version = await sql.transaction(async (tx) => {
+      if (finished.length) {
+        await tx.query(
+          `UPDATE tasks SET status = 'done', completed_at = NOW() WHERE user_id = $1 AND id = ANY($2)`,
+          [userId, finished.map((t) => t.id)]
+        );
+      }
+      return savePlanVersion(tx, userId, today, plan, violations, { engine: "local", prompt: null, weather: null });
+    });
+    
+    return json({ plan, violations, version, now: currentTime, completedTasks: finished.map((t) => String(t.id)), unscheduled: skipped });
+  } catch (err: any) {
+    console.error("Database error re-planning day:", err);
+    return json({ error: "Failed to re-plan day: " + err.message }, 500);
+  }
+}
+
+/**
+ * Record what happened to a schedule block: body `{ status, at? }` where
+ * status is started, finished or skipped and `at` (ISO 8601, default now) is
+ * when. Finishing every block of a task marks the task done; starting one
+ * moves a todo task to in_progress.
+ */
+async function checkInBlock(req: Request, env: Env, sql: Db, blockId: string, body: BlockCheckInInput) {
+  const userId = await getUserId(req, env);
+  const { status, at } = body;
+  const time = new Date(at ?? Date.now()).toISOString();
+  
+  try {
+    const { rows } = await sql.query(
+      `SELECT plan_date::text AS plan_date, plan_json, active_version FROM plans
+       WHERE user_id = $1 AND plan_json->'schedule' @> $2::jsonb`,
+      [userId, JSON.stringify([{ id: blockId }])]
+    );
+    
+    if (!rows.length) {
+      return json({ error: "Schedule block not found" }, 404);
+    }
+    
+    const { plan_date, plan_json: plan, active_version } = rows[0];
+    const block: StoredBlock = plan.schedule.find((b: StoredBlock) => b.id === blockId);
+    if (status === "started") {
+      block.startedAt = time;
+      delete block.finishedAt;
+    } else if (status === "finished") {
+      block.startedAt = block.startedAt || block.startsAt;
+      if (block.startedAt && Date.parse(time) < Date.parse(block.startedAt)) {
+        return json({ error: "A block can't finish before it started" }, 400);
+      }
+      block.finishedAt = time;
+    } else {
+      delete block.startedAt;
+      delete block.finishedAt;
+    }
+    block.status = status as StoredBlock["status"];
+    
+    await sql.transaction(async (tx) => {
+      // Keep the active version in step so history shows the check-in too
+      await tx.query(
+        `UPDATE plans SET plan_json = $3 WHERE user_id = $1 AND plan_date = $2`,
+        [userId, plan_date, plan]
+      );
+      await tx.query(
+        `UPDATE plan_versions SET plan_json = $4 WHERE user_id = $1 AND plan_date = $2 AND version = $3`,
+        [userId, plan_date, active_version, plan]
+      );
+      
+      if (block.type === "task" && block.taskId !== undefined) {
+        const taskBlocks = plan.schedule.filter((b: StoredBlock) => b.taskId === block.taskId);
+        if (taskBlocks.every((b: StoredBlock) => b.status === "finished")) {
+          await tx.query(
+            `UPDATE tasks SET status = 'done', completed_at = $3 WHERE id = $1 AND user_id = $2 AND status <> 'done'`,
+            [block.taskId, userId, time]
+          );
+        } else if (status === "started") {
+          await tx.query(
+            `UPDATE tasks SET status = 'in_progress' WHERE id = $1 AND user_id = $2 AND status = 'todo'`,
+            [block.taskId, userId]
+          );
+        }
+      }
+    });
+    
+    return json({ ok: true, date: plan_date, block });
+  } catch (err: any) {
+    console.error("Database error checking in block:", err);
+    return json({ error: "Failed to check in block: " + err.message }, 500);
+  }
+}
+
+// Productivity analytics for `?from=&to=` (default: the last 7 days up to today)
+async function getStats(req: Request, env: Env, sql: Db) {
+  const userId = await getUserId(req, env);
+  const url = new URL(req.url);
+  const fromParam = url.searchParams.get("from");
+  const toParam = url.searchParams.get("to");
+  
+  if ((fromParam && !isValidDate(fromParam)) || (toParam && !isValidDate(toParam))) {
+    return json({ error: "Dates must be in YYYY-MM-DD format" }, 400);
+  }
+  
+  try {
+    const { timezone, today } = await getUserClock(sql, userId);
+    const to = toParam || today;
+    const from = fromParam || new Date(Date.parse(to) - (DEFAULT_STATS_DAYS - 1) * 86400000).toISOString().slice(0, 10);
+    const days = (Date.parse(to) - Date.parse(from)) / 86400000;
+    if (days < 0) {
+      return json({ error: "from must not be after to" }, 400);
+    }
+    if (days >= MAX_STATS_DAYS) {
+      return json({ error: `Stats can cover at most ${MAX_STATS_DAYS} days` }, 400);
+    }
+    
+    const [{ rows: plans }, { rows: completionRows }] = await Promise.all([
+      sql.query(
+        `SELECT plan_date::text AS plan_date, plan_json FROM plans WHERE user_id = $1 AND plan_date BETWEEN $2 AND $3`,
+        [userId, from, to]
+      ),
+      sql.query(
+        `SELECT DISTINCT (completed_at AT TIME ZONE $2)::date::text AS day FROM tasks
+         WHERE user_id = $1 AND status = 'done' AND completed_at IS NOT NULL`,
+        [userId, timezone]
+      ),
+    ]);
+    
+    // Tasks dated in the range, plus any the plans refer to from other days
+    const plannedIds = plans.flatMap((row) =>
+      (row.plan_json?.schedule || [])
+        .filter((block: StoredBlock) => block.type === "task" && /^\d+$/.test(String(block.taskId)))
+        .map((block: StoredBlock) => block.taskId)
+    );
+    const { rows: tasks } = await sql.query(
+      `SELECT id, importance, status, task_date::text AS task_date FROM tasks
+       WHERE user_id = $1 AND (task_date BETWEEN $2 AND $3 OR id = ANY($4::int[]))`,
+      [userId, from, to, plannedIds]
+    );
+    
+    return json(computeStats({ from, to, today, plans, tasks, completionDays: completionRows.map((row) => row.day) }));
+  } catch (err: any) {
+    console.error("Database error computing stats:", err);
+    return json({ error: "Failed to compute stats: " + err.message }, 500);
+  }
+}
+
+// List every generated version of the plan for `date` (default today), newest first
+async function getPlanVersions(req: Request, env: Env, sql: Db, date?: string) {
+  const userId = await getUserId(req, env);
+  
+  try {
+    const { today } = await getUserClock(sql, userId);
+    const { rows } = await sql.query(
+      `SELECT v.version, v.engine, v.created_at, jsonb_array_length(COALESCE(v.violations, '[]'::jsonb)) AS violation_count,
+              v.version = p.active_version AS active
+       FROM plan_versions v
+       LEFT JOIN plans p ON p.user_id = v.user_id AND p.plan_date = v.plan_date
+       WHERE v.user_id = $1 AND v.plan_date = $2
+       ORDER BY v.version DESC`,
+      [userId, date || today]
+    );
+    
+    return json({
+      date: date || today,
+      versions: rows.map((row) => ({
+        version: row.version,
+        engine: row.engine,
+        createdAt: row.created_at,
+        violationCount: Number(row.violation_count),
+        active: row.active === true,
+      })),
+    });
+  } catch (err: any) {
+    console.error("Database error getting plan versions:", err);
+    return json({ error: "Failed to retrieve plan versions: " + err.message }, 500);
+  }
+}
+
+// One plan version with the inputs it was generated from
+async function getPlanVersion(req: Request, env: Env, sql: Db, version: string, date?: string) {
+  const userId = await getUserId(req, env);
+  
+  try {
+    const { today } = await getUserClock(sql, userId);
+    const { rows } = await sql.query(
+      `SELECT v.version, v.plan_json, v.violations, v.engine, v.prompt, v.weather, v.created_at,
+              v.version = p.active_version AS active
+       FROM plan_versions v
+       LEFT JOIN plans p ON p.user_id = v.user_id AND p.plan_date = v.plan_date
+       WHERE v.user_id = $1 AND v.plan_date = $2 AND v.version = $3`,
+      [userId, date || today, version]
+    );
+    
+    if (!rows.length) {
+      return json({ error: "Plan version not found" }, 404);
+    }
+    
+    const row = rows[0];
+    return json({
+      version: row.version,
+      date: date || today,
+      active: row.active === true,
+      createdAt: row.created_at,
+      plan: row.plan_json,
+      violations: row.violations || [],
+      inputs: { engine: row.engine, prompt: row.prompt, weather: row.weather },
+    });
+  } catch (err: any) {
+    console.error("Database error getting plan version:", err);
+    return json({ error: "Failed to retrieve plan version: " + err.message }, 500);
+  }
+}
+
+// Pin an earlier (or later) version as the plan shown and exported for that day
+async function activatePlanVersion(req: Request, env: Env, sql: Db, version: string, date?: string) {
+  const userId = await getUserId(req, env);
+  
+  try {
+    const { today } = await getUserClock(sql, userId);
+    const { rows } = await sql.query(
+      `UPDATE plans p
+       SET plan_json = v.plan_json, violations = v.violations, active_version = v.version
+       FROM plan_versions v
+       WHERE p.user_id = $1 AND p.plan_date = $2
+         AND v.user_id = p.user_id AND v.plan_date = p.plan_date AND v.version = $3
+       RETURNING p.plan_json, p.violations, p.active_version`,
+      [userId, date || today, version]
+    );
+    
+    if (!rows.length) {
+      return json({ error: "Plan version not found" }, 404);
+    }
+    
+    return json({
+      ok: true,
+      message: `Plan version ${rows[0].active_version} is now active`,
+      plan: rows[0].plan_json,
+      violations: rows[0].violations || [],
+      version: rows[0].active_version,
+    });
+  } catch (err: any) {
+    console.error("Database error activating plan version:", err);
+    return json({ error: "Failed to activate plan version: " + err.message }, 500);
+  }
+}
+
+/**
+ * Compare two versions of a day's plan: `?from=1&to=3&date=YYYY-MM-DD`.
+ * `to` defaults to the active version and `from` to the version before `to`.
+ */
+async function diffPlanVersions(req: Request, env: Env, sql: Db, { date, from, to }: PlanDiffQuery) {
+  const userId = await getUserId(req, env);
+  
+  try {
+    const { today } = await getUserClock(sql, userId);
+    const planDate = date || today;
+    
+    let toVersion = to ? Number(to) : null;
+    if (toVersion === null) {
+      const { rows } = await sql.query(
+        `SELECT active_version FROM plans WHERE user_id = $1 AND plan_date = $2`,
+        [userId, planDate]
+      );
+      toVersion = rows[0]?.active_version ?? null;
+    }
+    const fromVersion = from ? Number(from) : toVersion - 1;
+    if (toVersion === null || fromVersion < 1) {
+      return json({ error: "Two plan versions are needed to compare" }, 400);
+    }
+    
+    const { rows } = await sql.query(
+      `SELECT version, plan_json FROM plan_versions
+       WHERE user_id = $1 AND plan_date = $2 AND version = ANY($3)`,
+      [userId, planDate, [fromVersion, toVersion]]
+    );
+    const before = rows.find((row) => row.version === fromVersion);
+    const after = rows.find((row) => row.version === toVersion);
+    if (!before || !after) {
+      return json({ error: "Plan version not found" }, 404);
+    }
+    
+    return json({ date: planDate, from: fromVersion, to: toVersion, diff: diffPlans(before.plan_json, after.plan_json) });
+  } catch (err: any) {
+    console.error("Database error comparing plan versions:", err);
+    return json({ error: "Failed to compare plan versions: " + err.message }, 500);
+  }
+}
+
+/**
+ * Export stored plans as iCalendar. `?date=YYYY-MM-DD` exports one day
+ * (default today); `?from=&to=` exports an inclusive range. Calendar clients
+ * can't send a Bearer token, so a subscription URL authenticates with
+ * `?token=` from POST /api/calendar/token instead.
+ */
+async function exportPlanCalendar(req: Request, env: Env, sql: Db, query: PlanCalendarQuery) {
+  const feedToken = query.token;
+  
+  let userId: string;
+  if (feedToken && !req.headers.get("Authorization")) {
+    const { rows } = await sql.query(`SELECT id FROM users WHERE calendar_token = $1`, [feedToken]);
+    if (!rows.length) {
+      return json({ error: "Invalid calendar token" }, 401);
+    }
+    userId = rows[0].id;
+  } else {
+    userId = await getUserId(req, env);
+  }
+  
+  const from = query.from || query.date;
+  const to = query.to || query.date;
+  if (!from !== !to) {
+    return json({ error: "Both from and to are required for a date range" }, 400);
+  }
+  if (from && to) {
+    const days = (Date.parse(to) - Date.parse(from)) / 86400000;
+    if (days < 0) {
+      return json({ error: "from must not be after to" }, 400);
+    }
+    if (days >= MAX_CALENDAR_DAYS) {
+      return json({ error: `A calendar export can cover at most ${MAX_CALENDAR_DAYS} days` }, 400);
+    }
+  }
+  
+  try {
+    const { timezone, today } = await getUserClock(sql, userId);
+    const { rows } = await sql.query(
+      `SELECT plan_date::text AS plan_date, plan_json FROM plans
+       WHERE user_id = $1 AND plan_date BETWEEN $2 AND $3
+       ORDER BY plan_date`,
+      [userId, from || today, to || today]
+    );
+    
+    const events = rows.flatMap((row) => planToEvents(userId, row.plan_date, row.plan_json, timezone));
+    const filename = from && from !== to ? `plan-${from}-to-${to}.ics` : `plan-${from || "today"}.ics`;
+    return calendarResponse(buildCalendar("PlanMyDay", events), filename);
+  } catch (err: any) {
+    console.error("Database error exporting calendar:", err);
+    return json({ error: "Failed to export calendar: " + err.message }, 500);
+  }
+}
+
+// Create (or replace) the secret token used by calendar subscription URLs
+async function createCalendarToken(req: Request, env: Env, sql: Db) {
+  const userId = await getUserId(req, env);
+  
+  const bytes = crypto.getRandomValues(new Uint8Array(24));
+  const token = Array.from(bytes, (b) => b.toString(16).padStart(2, "0")).join("");
+  
+  try {
+    await sql.query(
+      `INSERT INTO users (id, calendar_token) VALUES ($1, $2)
+       ON CONFLICT (id) DO UPDATE SET calendar_token = EXCLUDED.calendar_token`,
+      [userId, token]
+    );
+    
+    const url = new URL(req.url);
+    return json({ ok: true, token, url: `${url.origin}/api/plan.ics?token=${token}` });
+  } catch (err: any) {
+    console.error("Database error creating calendar token:", err);
+    return json({ error: "Failed to create calendar token: " + err.message }, 500);
+  }
+}
+
+async function revokeCalendarToken(req: Request, env: Env, sql: Db) {
+  const userId = await getUserId(req, env);
+  
+  try {
+    await sql.query(`UPDATE users SET calendar_token = NULL WHERE id = $1`, [userId]);
+    return json({ ok: true, message: "Calendar token revoked" });
+  } catch (err: any) {
+    console.error("Database error revoking calendar token:", err);
+    return json({ error: "Failed to revoke calendar token: " + err.message }, 500);
+  }
+}
+
+/**
+ * Store an iCalendar file whose events block time in generated plans. Send
+ * the file itself (Content-Type: text/calendar, name in `?name=`) or JSON
+ * `{ name, ics }`. Importing again under the same name replaces the feed.
+ */
+async function importCalendar(req: Request, env: Env, sql: Db) {
+  const userId = await getUserId(req, env);
+  const url = new URL(req.url);
+  
+  let name = url.searchParams.get("name") || "Imported calendar";
+  let ics: string;
+  try {
+    if ((req.headers.get("Content-Type") || "").includes("application/json")) {
+      const body = await req.json() as { name?: string; ics: string };
+      name = body.name || name;
+      ics = body.ics;
+    } else {
+      ics = await req.text();
+    }
+  } catch (err) {
+    return json({ error: "Invalid request body" }, 400);
+  }
+  
+  if (!ics || typeof ics !== 'string') {
+    return json({ error: "An iCalendar file is required" }, 400);
+  }
+  if (new TextEncoder().encode(ics).length > MAX_CALENDAR_BYTES) {
+    return json({ error: `Calendar files must be at most ${MAX_CALENDAR_BYTES / 1024} KB` }, 413);
+  }
+  if (typeof name !== 'string' || name.trim().length === 0) {
+    return json({ error: "Name must be a non-empty string" }, 400);
+  }
+  
+  let eventCount: number;
+  try {
+    eventCount = parseCalendar(ics).length;
+  } catch (err: any) {
+    return json({ error: "Invalid iCalendar file: " + err.message }, 400);
+  }
+  
+  try {
+    const feedId = await sql.transaction(async (tx) => {
+      await ensureUser(tx, userId);
+      const { rows } = await tx.query(
+        `INSERT INTO calendar_feeds (user_id, name, ics_body, updated_at)
+         VALUES ($1, $2, $3, NOW())
+         ON CONFLICT (user_id, name) DO UPDATE SET ics_body = EXCLUDED.ics_body, updated_at = NOW()
+         RETURNING id`,
+        [userId, name.trim(), ics]
+      );
+      return rows[0].id;
+    });
+    return json({ ok: true, message: "Calendar imported successfully", feed: { id: feedId.toString(), name: name.trim(), eventCount } });
+  } catch (err: any) {
+    console.error("Database error importing calendar:", err);
+    return json({ error: "Failed to import calendar: " + err.message }, 500);
+  }
+}
+
+async function getCalendarFeeds(req: Request, env: Env, sql: Db) {
+  const userId = await getUserId(req, env);
+  
   try {
-    await sql.query(
-      `INSERT INTO preferences (user_id, wake_time, sleep_time, peak_focus, city, break_style, break_interval_minutes, max_work_hours, commute_mode)
-       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)
-       ON CONFLICT (user_id) DO UPDATE SET 
-         wake_time = EXCLUDED.wake_time,
-         sleep_time = EXCLUDED.sleep_time,
-         peak_focus = EXCLUDED.peak_focus,
-         city = EXCLUDED.city,
-         break_style = EXCLUDED.break_style,
-         break_interval_minutes = EXCLUDED.break_interval_minutes,
-         max_work_hours = EXCLUDED.max_work_hours,
-         commute_mode = EXCLUDED.commute_mode`,
-      [userId, wakeTime, sleepTime, peakFocus, city, breakStyle, breakInterval, maxWorkHours, commuteMode]
+    const { rows } = await sql.query(
+      `SELECT id, name, ics_body, updated_at FROM calendar_feeds WHERE user_id = $1 ORDER BY name`,
+      [userId]
+    );
+    
+    const feeds = rows.map((feed) => {
+      let eventCount = 0;
+      try {
+        eventCount = parseCalendar(feed.ics_body).length;
+      } catch (err) {
+        console.error(`Stored calendar feed ${feed.id} no longer parses:`, err);
+      }
+      return { id: feed.id.toString(), name: feed.name, eventCount, updatedAt: feed.updated_at };
+    });
+    
+    return json({ feeds });
+  } catch (err: any) {
+    console.error("Database error getting calendar feeds:", err);
+    return json({ error: "Failed to retrieve calendar feeds: " + err.message }, 500);
+  }
+}
+
+async function deleteCalendarFeed(req: Request, env: Env, sql: Db) {
+  const userId = await getUserId(req, env);
+  const url = new URL(req.url);
+  const feedId = url.pathname.split('/').pop();
+  
+  if (!feedId || !/^\d+$/.test(feedId)) {
+    return json({ error: "A numeric feed ID is required" }, 400);
+  }
+  
+  try {
+    const result = await sql.query(
+      `DELETE FROM calendar_feeds WHERE id = $1 AND user_id = $2`,
+      [feedId, userId]
     );
+    
+    if (result.rowCount === 0) {
+      return json({ error: "Calendar feed not found or not authorized to delete" }, 404);
+    }
+    
+    return json({ ok: true, message: "Calendar feed deleted successfully" });
+  } catch (err: any) {
+    console.error("Database error deleting calendar feed:", err);
+    return json({ error: "Failed to delete calendar feed: " + err.message }, 500);
+  }
+}
+
+async function savePreferences(req: Request, env: Env, sql: Db, body: PreferencesInput) {
+  const userId = await getUserId(req, env);
+  
+  const { wakeTime, sleepTime, peakFocus, city, breakStyle, breakMinutes, meals, maxWorkHours, commuteMode, timezone, reminderLeadMinutes } = body;
+  const { quietHoursStart, quietHoursEnd } = body;
+  if ((quietHoursStart == null) !== (quietHoursEnd == null)) {
+    return json({ error: "quietHoursStart and quietHoursEnd must be set together" }, 400);
+  }
+  
+  // The named strategies fix their own session length; a custom one needs it
+  let breakInterval = body.breakInterval;
+  if (breakStyle === "custom") {
+    const { min, max } = CUSTOM_WORK_MINUTES;
+    if (breakInterval === undefined || breakInterval < min || breakInterval > max) {
+      return json({ error: `breakInterval must be between ${min} and ${max} minutes for the custom break style` }, 400);
+    }
+  } else {
+    breakInterval = breakStrategyFor({ break_style: breakStyle }).workMinutes;
+  }
+  const overlap = meals ? mealOverlap(meals as Meal[]) : null;
+  if (overlap) {
+    return json({ error: `Meals must not overlap: ${overlap}` }, 400);
+  }
+  // Leaving both out keeps the saved quiet hours; null turns them off
+  const quietHoursGiven = quietHoursStart !== undefined;
+  
+  try {
+    await sql.transaction(async (tx) => {
+      await ensureUser(tx, userId);
+      await tx.query(
+        `INSERT INTO preferences (user_id, wake_time, sleep_time, peak_focus, city, break_style, break_interval_minutes, max_work_hours, commute_mode, timezone,
+                                  reminder_lead_minutes, quiet_hours_start, quiet_hours_end, break_minutes, meals)
+         VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, COALESCE($10, 'UTC'), COALESCE($11, 10), $12, $13, COALESCE($15, 15), $16::jsonb)
+         ON CONFLICT (user_id) DO UPDATE SET 
+           wake_time = EXCLUDED.wake_time,
+           sleep_time = EXCLUDED.sleep_time,
+           peak_focus = EXCLUDED.peak_focus,
+           city = EXCLUDED.city,
+           break_style = EXCLUDED.break_style,
+           break_interval_minutes = EXCLUDED.break_interval_minutes,
+           max_work_hours = EXCLUDED.max_work_hours,
+           commute_mode = EXCLUDED.commute_mode,
+           timezone = COALESCE($10, preferences.timezone),
+           reminder_lead_minutes = COALESCE($11, preferences.reminder_lead_minutes),
+           quiet_hours_start = CASE WHEN $14 THEN EXCLUDED.quiet_hours_start ELSE preferences.quiet_hours_start END,
+           quiet_hours_end = CASE WHEN $14 THEN EXCLUDED.quiet_hours_end ELSE preferences.quiet_hours_end END,
+           break_minutes = COALESCE($15, preferences.break_minutes),
+           meals = CASE WHEN $17 THEN EXCLUDED.meals ELSE preferences.meals END`,
+        [
+          userId, wakeTime, sleepTime, peakFocus, city, breakStyle, breakInterval, maxWorkHours, commuteMode, timezone ?? null,
+          reminderLeadMinutes ?? null, quietHoursStart ?? null, quietHoursEnd ?? null, quietHoursGiven,
+          // Leaving meals out keeps the saved ones; null goes back to the defaults
+          breakMinutes ?? null, meals ? JSON.stringify(meals) : null, meals !== undefined,
+        ]
+      );
+    });
     return json({ ok: true, message: "Preferences saved successfully" });
   } catch (err: any) {
     console.error("Database error saving preferences:", err);
@@ -411,12 +2072,12 @@ async function savePreferences(req: Request, env: Env, sql: Client) {
   }
 }
 
-async function getPreferences(req: Request, env: Env, sql: Client) {
+async function getPreferences(req: Request, env: Env, sql: Db) {
   const userId = await getUserId(req, env);
   
   try {
     const { rows } = await sql.query(
-      `SELECT wake_time, sleep_time, peak_focus, city, break_style, break_interval_minutes, max_work_hours, commute_mode FROM preferences WHERE user_id = $1`,
+      `SELECT ${PREFERENCES_COLUMNS} FROM preferences WHERE user_id = $1`,
       [userId]
     );
     
@@ -424,98 +2085,861 @@ async function getPreferences(req: Request, env: Env, sql: Client) {
       return json({ preferences: null, message: "No preferences found" });
     }
     
-    // Map the database response to match frontend expectations
-    const prefs = rows[0];
-    return json({ 
-      preferences: {
-        wakeTime: prefs.wake_time,
-        sleepTime: prefs.sleep_time,
-        peakFocus: prefs.peak_focus,
-        city: prefs.city,
-        breakStyle: prefs.break_style,
-        breakInterval: prefs.break_interval_minutes,
-        maxWorkHours: prefs.max_work_hours,
-        commuteMode: prefs.commute_mode
-      }
-    });
+    return json({ preferences: toPreferencesResponse(rows[0]) });
   } catch (err: any) {
     console.error("Database error getting preferences:", err);
     return json({ error: "Failed to retrieve preferences: " + err.message }, 500);
   }
 }
 
-async function getTasks(req: Request, env: Env, sql: Client) {
+async function getTasks(req: Request, env: Env, sql: Db, query: TaskListQuery) {
   const userId = await getUserId(req, env);
+  const { date, status } = query;
+  
+  // date: today (default), backlog (no date), all, or YYYY-MM-DD
+  const { today } = await getUserClock(sql, userId);
+  const conditions = ["user_id = $1"];
+  const params: unknown[] = [userId];
+  if (date === "today") {
+    params.push(today);
+    conditions.push(`task_date = $${params.length}`);
+  } else if (date === "backlog") {
+    conditions.push("task_date IS NULL");
+  } else if (date !== "all") {
+    params.push(date);
+    conditions.push(`task_date = $${params.length}`);
+  }
+  
+  // status: one or more comma-separated statuses
+  if (status) {
+    params.push(status.split(",").map((s) => s.trim()));
+    conditions.push(`status = ANY($${params.length})`);
+  }
   
   try {
+    await rollOverUnfinishedTasks(sql, userId, today);
+    if (date !== "backlog" && date !== "all") {
+      await materializeRecurringTasks(sql, userId, date === "today" ? today : date);
+    }
+    
     const { rows } = await sql.query(
-      `SELECT id, title, duration_minutes, importance, task_date 
+      `SELECT ${TASK_COLUMNS}
        FROM tasks 
-       WHERE user_id = $1 AND task_date = CURRENT_DATE 
+       WHERE ${conditions.join(" AND ")} 
        ORDER BY id DESC`,
-      [userId]
+      params
     );
     
-    // Map database fields to frontend expectations
-    const tasks = rows.map(task => ({
-      id: task.id.toString(),
-      title: task.title,
-      duration: task.duration_minutes,
-      importance: task.importance
-    }));
-    
-    return json({ tasks });
+    const model = await loadDurationModel(sql, userId, today);
+    return json({ tasks: rows.map((row) => toTaskResponse(row, model)) });
   } catch (err: any) {
     console.error("Database error getting tasks:", err);
     return json({ error: "Failed to retrieve tasks: " + err.message }, 500);
   }
 }
 
-async function deleteTask(req: Request, env: Env, sql: Client) {
-  const userId = await getUserId(req, env);
-  const url = new URL(req.url);
-  const taskId = url.pathname.split('/').pop();
+async function deleteTask(req: Request, env: Env, sql: Db, taskId: string) {
+  const userId = await getUserId(req, env);
+  
+  try {
+    const deleted = await sql.transaction(async (tx) => {
+      const { rows } = await tx.query(
+        `DELETE FROM tasks WHERE id = $1 AND user_id = $2
+         RETURNING recurring_task_id, occurrence_date`,
+        [taskId, userId]
+      );
+      if (!rows.length) {
+        return false;
+      }
+      
+      // Tasks that waited on this one no longer depend on anything missing
+      await tx.query(
+        `UPDATE tasks SET depends_on = array_remove(depends_on, $1::integer)
+         WHERE user_id = $2 AND $1::integer = ANY(depends_on)`,
+        [taskId, userId]
+      );
+      
+      // Deleting one occurrence of a series must stop it from being recreated
+      if (rows[0].recurring_task_id) {
+        await tx.query(
+          `INSERT INTO recurring_task_exceptions (recurring_task_id, occurrence_date)
+           VALUES ($1, $2) ON CONFLICT DO NOTHING`,
+          [rows[0].recurring_task_id, rows[0].occurrence_date]
+        );
+      }
+      return true;
+    });
+    
+    if (!deleted) {
+      return json({ error: "Task not found or not authorized to delete" }, 404);
+    }
+    
+    return json({ ok: true, message: "Task deleted successfully" });
+  } catch (err: any) {
+    console.error("Database error deleting task:", err);
+    return json({ error: "Failed to delete task: " + err.message }, 500);
+  }
+}
+
+/**
+ * Create many tasks at once from a CSV file (Content-Type: text/csv, with a
+ * header row) or JSON (`{ tasks: [...] }` or a bare list). Every row is
+ * checked like POST /api/tasks; rows that fail are reported and skipped, and
+ * the rest are created in one transaction. `?dryRun=true` only checks them.
+ * In CSV an empty date cell puts the task in the backlog, and dependsOn
+ * lists existing task IDs separated by semicolons. The body is read here
+ * rather than by the route, since it may not be JSON.
+ */
+async function importTasks(req: Request, env: Env, sql: Db, { dryRun, format: requested }: TaskImportQuery) {
+  const userId = await getUserId(req, env);
+  const format = requested || ((req.headers.get("Content-Type") || "").includes("csv") ? "csv" : "json");
+  
+  let text: string;
+  try {
+    text = await req.text();
+  } catch (err) {
+    return json({ error: "Invalid request body" }, 400);
+  }
+  if (new TextEncoder().encode(text).length > MAX_IMPORT_BYTES) {
+    return json({ error: `Imports must be at most ${MAX_IMPORT_BYTES / 1024} KB` }, 413);
+  }
+  
+  // Each row as a createTask body, with where it came from for error reports
+  let rows: Array<{ row: number; input: any }>;
+  let ignoredColumns: string[] = [];
+  if (format === "csv") {
+    let records;
+    try {
+      records = parseCsv(text);
+    } catch (err: any) {
+      return json({ error: "Invalid CSV: " + err.message }, 400);
+    }
+    if (!records.length) {
+      return json({ error: "The CSV file is empty" }, 400);
+    }
+    const parsed = csvTaskRows(records);
+    if ("error" in parsed) {
+      return json({ error: parsed.error }, 400);
+    }
+    ({ rows, ignoredColumns } = parsed);
+  } else {
+    let body;
+    try {
+      body = JSON.parse(text);
+    } catch (err) {
+      return json({ error: "Invalid JSON in request body" }, 400);
+    }
+    const list = Array.isArray(body) ? body : body?.tasks;
+    if (!Array.isArray(list)) {
+      return json({ error: "Body must be a list of tasks or { tasks: [...] }" }, 400);
+    }
+    rows = list.map((input, index) => ({ row: index + 1, input }));
+  }
+  
+  if (!rows.length) {
+    return json({ error: "No tasks to import" }, 400);
+  }
+  if (rows.length > MAX_IMPORT_ROWS) {
+    return json({ error: `Imports can have at most ${MAX_IMPORT_ROWS} tasks` }, 413);
+  }
+  
+  try {
+    const { today } = await getUserClock(sql, userId);
+    const needsTasks = rows.some(({ input }) => Array.isArray(input?.dependsOn) && input.dependsOn.length);
+    const known = new Set<string>();
+    if (needsTasks) {
+      const { rows: existing } = await sql.query(`SELECT id FROM tasks WHERE user_id = $1`, [userId]);
+      existing.forEach((task) => known.add(String(task.id)));
+    }
+    
+    // Same checks as POST /api/tasks: the request schema, then the field rules
+    const results: Array<{ row: number; ok: boolean; error?: string; task?: unknown; fields?: Record<string, any> }> = rows.map(({ row, input }) => {
+      const parsed = TaskInputSchema.safeParse(input);
+      if (!parsed.success) {
+        return { row, ok: false, error: formatSchemaIssues(parsed.error).join("; ") };
+      }
+      const validation = validateTaskInput(parsed.data, false);
+      if ("error" in validation) {
+        return { row, ok: false, error: validation.error };
+      }
+      const missing = (validation.fields.depends_on || []).filter((id: number) => !known.has(String(id)));
+      if (missing.length) {
+        return { row, ok: false, error: `Unknown dependency task IDs: ${missing.join(', ')}` };
+      }
+      return { row, ok: true, fields: validation.fields };
+    });
+    
+    const valid = results.filter((result) => result.ok);
+    if (!dryRun && valid.length) {
+      await sql.transaction(async (tx) => {
+        await ensureUser(tx, userId);
+        for (const result of valid) {
+          const {
+            title, duration_minutes, importance, status = "todo", task_date,
+            fixed_start = null, deadline = null, depends_on = [], location = null,
+          } = result.fields!;
+          const { rows: created } = await tx.query(
+            `INSERT INTO tasks (user_id, title, duration_minutes, importance, status, task_date, completed_at, fixed_start, deadline, depends_on, location)
+             VALUES ($1, $2, $3, $4, $5, $6, CASE WHEN $5 = 'done' THEN NOW() END, $7, $8, $9, $10)
+             RETURNING ${TASK_COLUMNS}`,
+            [userId, title, duration_minutes, importance, status, task_date === undefined ? today : task_date, fixed_start, deadline, depends_on, location]
+          );
+          result.task = toTaskResponse(created[0]);
+        }
+      });
+    }
+    
+    const failed = results.length - valid.length;
+    return json({
+      ok: true,
+      dryRun,
+      message: `${dryRun ? "Would import" : "Imported"} ${valid.length} of ${results.length} tasks${failed ? `; ${failed} rows had errors` : ""}`,
+      created: dryRun ? 0 : valid.length,
+      failed,
+      ...(ignoredColumns.length && { ignoredColumns }),
+      results: results.map(({ fields, ...result }) => result),
+    });
+  } catch (err: any) {
+    console.error("Database error importing tasks:", err);
+    return json({ error: "Failed to import tasks: " + err.message }, 500);
+  }
+}
+
+// Tasks dated `?from=` to `?to=` (both default to today) as JSON, or as CSV
+// with `?format=csv`; `?backlog=true` adds the tasks without a date
+async function exportTasks(req: Request, env: Env, sql: Db, { format, from, to = from, backlog }: TaskExportQuery) {
+  const userId = await getUserId(req, env);
+  
+  if (from && to) {
+    const days = (Date.parse(to) - Date.parse(from)) / 86400000;
+    if (days < 0) {
+      return json({ error: "from must not be after to" }, 400);
+    }
+    if (days >= MAX_EXPORT_DAYS) {
+      return json({ error: `A task export can cover at most ${MAX_EXPORT_DAYS} days` }, 400);
+    }
+  }
+  
+  try {
+    const { today } = await getUserClock(sql, userId);
+    const { rows } = await sql.query(
+      `SELECT ${TASK_COLUMNS}, completed_at FROM tasks
+       WHERE user_id = $1 AND (task_date BETWEEN $2 AND $3 OR ($4 AND task_date IS NULL))
+       ORDER BY task_date NULLS LAST, id`,
+      [userId, from || today, to || today, backlog]
+    );
+    const tasks = rows.map((task) => ({ ...toTaskResponse(task), completedAt: task.completed_at ? new Date(task.completed_at).toISOString() : null }));
+    const range = from && from !== to ? `${from}-to-${to}` : from || today;
+    
+    if (format === "csv") {
+      const cells = tasks.map((task: Record<string, any>) =>
+        TASK_CSV_COLUMNS.map((column) => (column === "dependsOn" ? task.dependsOn.join(";") : task[column]))
+      );
+      return csvResponse(toCsv([TASK_CSV_COLUMNS, ...cells]), `tasks-${range}.csv`);
+    }
+    
+    const res = json({ from: from || today, to: to || today, backlog, tasks });
+    res.headers.set("Content-Disposition", `attachment; filename="tasks-${range}.json"`);
+    return res;
+  } catch (err: any) {
+    console.error("Database error exporting tasks:", err);
+    return json({ error: "Failed to export tasks: " + err.message }, 500);
+  }
+}
+
+async function createRecurringTask(req: Request, env: Env, sql: Db, body: RecurringTaskInput) {
+  const userId = await getUserId(req, env);
+  
+  const validation = validateRecurringTaskInput(body, false);
+  if ("error" in validation) {
+    return json({ error: validation.error }, 400);
+  }
+  const { title, duration_minutes, importance, rrule, start_date } = validation.fields;
+  
+  try {
+    const { today } = await getUserClock(sql, userId);
+    const series = await sql.transaction(async (tx) => {
+      await ensureUser(tx, userId);
+      const { rows } = await tx.query(
+        `INSERT INTO recurring_tasks (user_id, title, duration_minutes, importance, rrule, start_date)
+         VALUES ($1, $2, $3, $4, $5, $6)
+         RETURNING ${RECURRING_TASK_COLUMNS}`,
+        [userId, title, duration_minutes, importance, rrule, start_date ?? today]
+      );
+      return rows[0];
+    });
+    return json({ ok: true, message: "Recurring task created successfully", recurringTask: toRecurringTaskResponse(series) });
+  } catch (err: any) {
+    console.error("Database error creating recurring task:", err);
+    return json({ error: "Failed to create recurring task: " + err.message }, 500);
+  }
+}
+
+async function getRecurringTasks(req: Request, env: Env, sql: Db) {
+  const userId = await getUserId(req, env);
+  
+  try {
+    const { rows } = await sql.query(
+      `SELECT ${RECURRING_TASK_COLUMNS} FROM recurring_tasks WHERE user_id = $1 ORDER BY id DESC`,
+      [userId]
+    );
+    return json({ recurringTasks: rows.map(toRecurringTaskResponse) });
+  } catch (err: any) {
+    console.error("Database error getting recurring tasks:", err);
+    return json({ error: "Failed to retrieve recurring tasks: " + err.message }, 500);
+  }
+}
+
+// Edits the series; occurrences that already exist as tasks keep their own values
+async function updateRecurringTask(req: Request, env: Env, sql: Db, seriesId: string, body: RecurringTaskInput, partial: boolean) {
+  const userId = await getUserId(req, env);
+  
+  const validation = validateRecurringTaskInput(body, partial);
+  if ("error" in validation) {
+    return json({ error: validation.error }, 400);
+  }
+  
+  const fields = validation.fields;
+  const columns = Object.keys(fields).filter((column) => fields[column] !== undefined);
+  if (!columns.length) {
+    return json({ error: "No recurring task fields to update" }, 400);
+  }
+  
+  try {
+    const { rows } = await sql.query(
+      `UPDATE recurring_tasks SET ${columns.map((column, i) => `${column} = $${i + 3}`).join(", ")}
+       WHERE id = $1 AND user_id = $2
+       RETURNING ${RECURRING_TASK_COLUMNS}`,
+      [seriesId, userId, ...columns.map((column) => fields[column])]
+    );
+    
+    if (!rows.length) {
+      return json({ error: "Recurring task not found or not authorized to update" }, 404);
+    }
+    
+    return json({ ok: true, message: "Recurring task updated successfully", recurringTask: toRecurringTaskResponse(rows[0]) });
+  } catch (err: any) {
+    console.error("Database error updating recurring task:", err);
+    return json({ error: "Failed to update recurring task: " + err.message }, 500);
+  }
+}
+
+// Ends the series: unfinished occurrences from today on are removed, past ones are kept as plain tasks
+async function deleteRecurringTask(req: Request, env: Env, sql: Db, seriesId: string) {
+  const userId = await getUserId(req, env);
+  
+  try {
+    const { today } = await getUserClock(sql, userId);
+    const result = await sql.transaction(async (tx) => {
+      await tx.query(
+        `DELETE FROM tasks
+         WHERE recurring_task_id = $1 AND user_id = $2 AND task_date >= $4 AND status = ANY($3)`,
+        [seriesId, userId, UNFINISHED_STATUSES, today]
+      );
+      return tx.query(
+        `DELETE FROM recurring_tasks WHERE id = $1 AND user_id = $2`,
+        [seriesId, userId]
+      );
+    });
+    
+    if (result.rowCount === 0) {
+      return json({ error: "Recurring task not found or not authorized to delete" }, 404);
+    }
+    
+    return json({ ok: true, message: "Recurring task deleted successfully" });
+  } catch (err: any) {
+    console.error("Database error deleting recurring task:", err);
+    return json({ error: "Failed to delete recurring task: " + err.message }, 500);
+  }
+}
+
+// --- Helpers ---------------------------------------------------
+/**
+ * Validate task fields from a request body, returning them keyed by column.
+ * When `partial` is true, fields that are absent are left undefined instead of
+ * being required. `date` may be YYYY-MM-DD or null for the backlog;
+ * `fixedStart` and `deadline` are HH:MM or null, `dependsOn` a list of task IDs.
+ */
+function validateTaskInput(body: any, partial: boolean): { error: string } | { fields: Record<string, any> } {
+  if (!body || typeof body !== 'object') {
+    return { error: "Request body must be a JSON object" };
+  }
+  
+  const { title, duration, importance, status, date, fixedStart, deadline, dependsOn, location } = body;
+  const fields: Record<string, any> = {};
+  
+  if (!partial || title !== undefined) {
+    if (!title || typeof title !== 'string' || title.trim().length === 0) {
+      return { error: "Title is required and must be a non-empty string" };
+    }
+    fields.title = title.trim();
+  }
+  
+  if (!partial || duration !== undefined) {
+    if (!duration || typeof duration !== 'number' || !Number.isInteger(duration) || duration <= 0) {
+      return { error: "Duration is required and must be a positive whole number of minutes" };
+    }
+    fields.duration_minutes = duration;
+  }
+  
+  if (!partial || importance !== undefined) {
+    if (!importance || typeof importance !== 'string') {
+      return { error: "Importance is required and must be a string" };
+    }
+    fields.importance = importance;
+  }
+  
+  if (status !== undefined) {
+    if (!TASK_STATUSES.includes(status)) {
+      return { error: `Invalid status. Must be one of: ${TASK_STATUSES.join(', ')}` };
+    }
+    fields.status = status;
+  }
+  
+  if (date !== undefined) {
+    if (date !== null && (typeof date !== 'string' || !isValidDate(date))) {
+      return { error: "Date must be in YYYY-MM-DD format, or null for the backlog" };
+    }
+    fields.task_date = date;
+  }
+  
+  const timeRegex = /^([0-1]?[0-9]|2[0-3]):[0-5][0-9]$/;
+  if (fixedStart !== undefined) {
+    if (fixedStart !== null && (typeof fixedStart !== 'string' || !timeRegex.test(fixedStart))) {
+      return { error: "Fixed start must be in HH:MM format, or null" };
+    }
+    fields.fixed_start = fixedStart;
+  }
+  
+  if (deadline !== undefined) {
+    if (deadline !== null && (typeof deadline !== 'string' || !timeRegex.test(deadline))) {
+      return { error: "Deadline must be in HH:MM format, or null" };
+    }
+    fields.deadline = deadline;
+  }
+  
+  if (fixedStart && deadline && typeof duration === 'number') {
+    const [sh, sm] = fixedStart.split(':').map(Number);
+    const [dh, dm] = deadline.split(':').map(Number);
+    if (sh * 60 + sm + duration > dh * 60 + dm) {
+      return { error: "A task with a fixed start must be able to finish by its deadline" };
+    }
+  }
+  
+  if (dependsOn !== undefined) {
+    const ids = dependsOn === null ? [] : dependsOn;
+    if (!Array.isArray(ids) || !ids.every((id) => /^\d+$/.test(String(id)))) {
+      return { error: "dependsOn must be a list of task IDs" };
+    }
+    fields.depends_on = [...new Set(ids.map(Number))];
+  }
+  
+  if (location !== undefined) {
+    if (location !== null && !TASK_LOCATIONS.includes(location)) {
+      return { error: `Invalid location. Must be one of: ${TASK_LOCATIONS.join(', ')}, or null` };
+    }
+    fields.location = location;
+  }
+  
+  return { fields };
+}
+
+/**
+ * Check a task's new dependency list: every ID must be one of the user's
+ * tasks and the new edges must not close a cycle. `taskId` is null for a task
+ * that doesn't exist yet (nothing can depend on it, so no cycle is possible).
+ * Returns an error message, or null when the dependencies are fine.
+ */
+async function checkTaskDependencies(sql: Db, userId: string, taskId: string | null, dependsOn: number[]) {
+  if (!dependsOn.length) {
+    return null;
+  }
+  if (taskId !== null && dependsOn.includes(Number(taskId))) {
+    return "A task cannot depend on itself";
+  }
+  
+  const { rows } = await sql.query(
+    `SELECT id, title, depends_on FROM tasks WHERE user_id = $1`,
+    [userId]
+  );
+  
+  const known = new Set(rows.map((row) => String(row.id)));
+  const missing = dependsOn.filter((id) => !known.has(String(id)));
+  if (missing.length) {
+    return `Unknown dependency task IDs: ${missing.join(', ')}`;
+  }
+  if (taskId === null) {
+    return null;
+  }
+  
+  const graph: DependencyGraph = new Map(rows.map((row) => [String(row.id), (row.depends_on || []).map(String)]));
+  graph.set(taskId, dependsOn.map(String));
+  const cycle = findCycle(graph);
+  if (cycle) {
+    const titles = new Map(rows.map((row) => [String(row.id), row.title]));
+    return `Dependency cycle: ${cycle.map((id) => `"${titles.get(id)}"`).join(' -> ')}`;
+  }
+  return null;
+}
+
+// Helper: CSV records (header first) as createTask bodies. Header names are
+// matched ignoring case, spaces and underscores; unknown columns are ignored.
+function csvTaskRows(records: CsvRecord[]): { error: string } | { rows: Array<{ row: number; input: any }>; ignoredColumns: string[] } {
+  const normalize = (name: string) => name.toLowerCase().replace(/[\s_-]/g, "");
+  const known = new Map(TASK_CSV_COLUMNS.map((column) => [normalize(column), column]));
+  const header = records[0].cells.map((name) => known.get(normalize(name)) ?? null);
+  
+  if (!header.includes("title")) {
+    return { error: "The CSV header must include a title column" };
+  }
+  const ignoredColumns = records[0].cells.filter((name, i) => !header[i] || header[i] === "id" || header[i] === "completedAt");
+  
+  const rows = records.slice(1).map(({ line, cells }) => {
+    const input: Record<string, any> = {};
+    header.forEach((column, i) => {
+      // Undo the apostrophe exports put in front of formula-like cells
+      const cell = (cells[i] ?? "").trim().replace(/^'(?=[=+\-@])/, "");
+      switch (column) {
+        case "title":
+        case "importance":
+          input[column] = cell;
+          break;
+        case "duration":
+          input.duration = /^\d+$/.test(cell) ? Number(cell) : cell;
+          break;
+        case "status":
+          if (cell) {
+            input.status = cell;
+          }
+          break;
+        case "date":
+        case "fixedStart":
+        case "deadline":
+        case "location":
+          input[column] = cell || null;
+          break;
+        case "dependsOn":
+          input.dependsOn = cell ? cell.split(/[;\s]+/).filter(Boolean) : [];
+          break;
+      }
+    });
+    return { row: line, input };
+  });
+  return { rows, ignoredColumns };
+}
+
+// Helper: map a tasks row to the shape the frontend expects
+// With a duration model, the response also carries the suggested duration next to the entered one
+function toTaskResponse(task: any, model?: DurationModel) {
+  return {
+    id: task.id.toString(),
+    title: task.title,
+    duration: task.duration_minutes,
+    importance: task.importance,
+    status: task.status,
+    date: task.task_date,
+    rolledOverFrom: task.rolled_over_from,
+    recurringTaskId: task.recurring_task_id ? task.recurring_task_id.toString() : null,
+    occurrenceDate: task.occurrence_date,
+    fixedStart: task.fixed_start,
+    deadline: task.deadline,
+    dependsOn: (task.depends_on || []).map(String),
+    location: task.location ?? null,
+    ...(model && { suggestedDuration: suggestDuration(model, task) }),
+  };
+}
+
+// Helper: learn how the user's entered durations compare with how long their
+// finished tasks actually took over the last ESTIMATE_HISTORY_DAYS
+async function loadDurationModel(sql: Db, userId: string, today: string): Promise<DurationModel> {
+  const since = new Date(Date.parse(today) - ESTIMATE_HISTORY_DAYS * 86400000).toISOString().slice(0, 10);
+  const { rows: plans } = await sql.query(
+    `SELECT plan_json FROM plans WHERE user_id = $1 AND plan_date BETWEEN $2 AND $3`,
+    [userId, since, today]
+  );
+  
+  const finishedIds = plans.flatMap((row) =>
+    (row.plan_json?.schedule || [])
+      .filter((block: StoredBlock) => block.type === "task" && block.status === "finished" && /^\d+$/.test(String(block.taskId)))
+      .map((block: StoredBlock) => block.taskId)
+  );
+  if (!finishedIds.length) {
+    return buildDurationModel([]);
+  }
+  
+  const { rows: tasks } = await sql.query(
+    `SELECT id, title, importance, duration_minutes FROM tasks WHERE user_id = $1 AND id = ANY($2::int[])`,
+    [userId, [...new Set(finishedIds)]]
+  );
+  return buildDurationModel(collectSamples(plans, tasks));
+}
+
+// Helper: move unfinished tasks from earlier days to `today` so nothing is dropped at midnight.
+// Missed occurrences of a recurring task are marked skipped instead, since today has its own.
+async function rollOverUnfinishedTasks(sql: Queryable, userId: string, today: string) {
+  await sql.query(
+    `UPDATE tasks
+     SET rolled_over_from = COALESCE(rolled_over_from, task_date), task_date = $3
+     WHERE user_id = $1 AND task_date < $3 AND status = ANY($2) AND recurring_task_id IS NULL`,
+    [userId, UNFINISHED_STATUSES, today]
+  );
+  await sql.query(
+    `UPDATE tasks SET status = 'skipped'
+     WHERE user_id = $1 AND task_date < $3 AND status = ANY($2) AND recurring_task_id IS NOT NULL`,
+    [userId, UNFINISHED_STATUSES, today]
+  );
+}
+
+// Helper: store `plan` as the next version for `date`, with the inputs it was
+// built from, and make it the active plan. Returns the new version number. Run
+// it in a transaction, together with any other writes the plan depends on.
+async function savePlanVersion(
+  sql: Queryable,
+  userId: string,
+  date: string,
+  plan: DayPlan,
+  violations: PlanViolation[],
+  inputs: { engine: string; prompt: string | null; weather: unknown }
+): Promise<number> {
+  const { rows } = await sql.query(
+    `INSERT INTO plan_versions (user_id, plan_date, version, plan_json, violations, engine, prompt, weather)
+     SELECT $1, $2, COALESCE(MAX(version), 0) + 1, $3, $4, $5, $6, $7
+     FROM plan_versions WHERE user_id = $1 AND plan_date = $2
+     RETURNING version`,
+    [userId, date, plan, JSON.stringify(violations), inputs.engine, inputs.prompt, inputs.weather]
+  );
+  const version = rows[0].version;
+  await sql.query(
+    `INSERT INTO plans (user_id, plan_date, plan_json, violations, active_version)
+     VALUES ($1, $2, $3, $4, $5)
+     ON CONFLICT (user_id, plan_date) DO UPDATE
+     SET plan_json = EXCLUDED.plan_json, violations = EXCLUDED.violations, active_version = EXCLUDED.active_version`,
+    [userId, date, plan, JSON.stringify(violations), version]
+  );
+  return version;
+}
+
+// Helper: the user's IANA timezone (UTC until they set one) and today's date there
+async function getUserClock(sql: Db, userId: string): Promise<{ timezone: string; today: string }> {
+  const { rows } = await sql.query(`SELECT timezone FROM preferences WHERE user_id = $1`, [userId]);
+  const timezone = isValidTimeZone(rows[0]?.timezone) ? rows[0].timezone : "UTC";
+  return { timezone, today: localDate(timezone) };
+}
+
+/**
+ * Create the concrete task rows for every recurring series that occurs on
+ * `date` (YYYY-MM-DD). Each occurrence is created once:
+ * (recurring_task_id, occurrence_date) is unique, and deleted occurrences are
+ * recorded in recurring_task_exceptions so they are not recreated.
+ */
+async function materializeRecurringTasks(sql: Queryable, userId: string, date: string) {
+  const { rows } = await sql.query(
+    `SELECT r.id, r.rrule, r.start_date::text AS start_date
+     FROM recurring_tasks r
+     WHERE r.user_id = $1
+       AND NOT EXISTS (
+         SELECT 1 FROM recurring_task_exceptions e
+         WHERE e.recurring_task_id = r.id AND e.occurrence_date = $2
+       )`,
+    [userId, date]
+  );
+  
+  const due = rows.filter((row) => {
+    try {
+      return occursOn(parseRRule(row.rrule), row.start_date, date);
+    } catch (err) {
+      console.error(`Invalid rule on recurring task ${row.id}:`, err);
+      return false;
+    }
+  });
+  if (!due.length) {
+    return;
+  }
+  
+  await sql.query(
+    `INSERT INTO tasks (user_id, title, duration_minutes, importance, status, task_date, recurring_task_id, occurrence_date)
+     SELECT user_id, title, duration_minutes, importance, 'todo', $3::date, id, $3::date
+     FROM recurring_tasks WHERE user_id = $1 AND id = ANY($2)
+     ON CONFLICT (recurring_task_id, occurrence_date) DO NOTHING`,
+    [userId, due.map((row) => row.id), date]
+  );
+}
+
+// Helper: busy blocks on `date` from every calendar feed the user imported.
+// A feed that fails to parse is skipped rather than failing plan generation.
+async function loadCalendarBlocks(sql: Db, userId: string, date: string, timezone: string): Promise<BusyBlock[]> {
+  const { rows } = await sql.query(
+    `SELECT id, ics_body FROM calendar_feeds WHERE user_id = $1`,
+    [userId]
+  );
   
-  if (!taskId) {
-    return json({ error: "Task ID is required" }, 400);
+  return rows
+    .flatMap((feed) => {
+      try {
+        return busyBlocksOn(parseCalendar(feed.ics_body), date, timezone);
+      } catch (err) {
+        console.error(`Skipping calendar feed ${feed.id}:`, err);
+        return [];
+      }
+    })
+    .sort((a, b) => a.start - b.start);
+}
+
+// Helper: validate a recurring task body; task fields follow the same rules as validateTaskInput
+function validateRecurringTaskInput(body: any, partial: boolean): { error: string } | { fields: Record<string, any> } {
+  const validation = validateTaskInput(
+    body && { title: body.title, duration: body.duration, importance: body.importance },
+    partial
+  );
+  if ("error" in validation) {
+    return validation;
   }
   
-  try {
-    const result = await sql.query(
-      `DELETE FROM tasks WHERE id = $1 AND user_id = $2`,
-      [taskId, userId]
-    );
-    
-    if (result.rowCount === 0) {
-      return json({ error: "Task not found or not authorized to delete" }, 404);
+  const fields = validation.fields;
+  if (!partial || body.recurrence !== undefined) {
+    if (body.recurrence === undefined) {
+      return { error: "Recurrence is required" };
     }
-    
-    return json({ ok: true, message: "Task deleted successfully" });
-  } catch (err: any) {
-    console.error("Database error deleting task:", err);
-    return json({ error: "Failed to delete task: " + err.message }, 500);
+    try {
+      fields.rrule = formatRRule(recurrenceFromInput(body.recurrence));
+    } catch (err: any) {
+      return { error: err.message };
+    }
+  }
+  
+  if (body.startDate !== undefined) {
+    if (typeof body.startDate !== 'string' || !isValidDate(body.startDate)) {
+      return { error: "Start date must be in YYYY-MM-DD format" };
+    }
+    fields.start_date = body.startDate;
   }
+  
+  return { fields };
 }
 
-// --- Helpers ---------------------------------------------------
-function buildPrompt({ prefs, tasks, weather }: any) {
+// Helper: create the users row for a user on first write; run it in the
+// same transaction as the write so the row and the data arrive together
+async function ensureUser(sql: Queryable, userId: string) {
+  await sql.query(`INSERT INTO users (id) VALUES ($1) ON CONFLICT (id) DO NOTHING`, [userId]);
+}
+
+// Helper: delete every row belonging to a user in one transaction. The
+// foreign keys cascade too, but databases set up by hand before migrations
+// may lack that, and rate limit counters aren't tied to users at all.
+async function deleteUserData(sql: Db, userId: string) {
+  await sql.transaction(async (tx) => {
+    await tx.query(
+      `DELETE FROM recurring_task_exceptions WHERE recurring_task_id IN (SELECT id FROM recurring_tasks WHERE user_id = $1)`,
+      [userId]
+    );
+    await tx.query(`DELETE FROM tasks WHERE user_id = $1`, [userId]);
+    await tx.query(`DELETE FROM recurring_tasks WHERE user_id = $1`, [userId]);
+    await tx.query(`DELETE FROM plan_versions WHERE user_id = $1`, [userId]);
+    await tx.query(`DELETE FROM plans WHERE user_id = $1`, [userId]);
+    await tx.query(`DELETE FROM calendar_feeds WHERE user_id = $1`, [userId]);
+    await tx.query(`DELETE FROM reminder_deliveries WHERE user_id = $1`, [userId]);
+    await tx.query(`DELETE FROM reminder_channels WHERE user_id = $1`, [userId]);
+    await tx.query(`DELETE FROM preferences WHERE user_id = $1`, [userId]);
+    await tx.query(`DELETE FROM rate_limits WHERE key = $1`, [`user:${userId}`]);
+    await tx.query(`DELETE FROM users WHERE id = $1`, [userId]);
+  });
+}
+
+// Helper: map a preferences row to the shape the frontend expects
+function toPreferencesResponse(prefs: any) {
+  return {
+    wakeTime: prefs.wake_time,
+    sleepTime: prefs.sleep_time,
+    peakFocus: prefs.peak_focus,
+    city: prefs.city,
+    breakStyle: prefs.break_style,
+    breakInterval: prefs.break_interval_minutes,
+    breakMinutes: prefs.break_minutes,
+    meals: mealsFor(prefs),
+    maxWorkHours: prefs.max_work_hours,
+    commuteMode: prefs.commute_mode,
+    timezone: prefs.timezone,
+    reminderLeadMinutes: prefs.reminder_lead_minutes,
+    quietHoursStart: prefs.quiet_hours_start,
+    quietHoursEnd: prefs.quiet_hours_end,
+  };
+}
+
+// Helper: map a reminder_channels row to the API shape, leaving out secrets and keys
+function toReminderChannelResponse(channel: any) {
+  return {
+    id: channel.id.toString(),
+    kind: channel.kind,
+    target: describeChannel(channel.kind, channel.config),
+    createdAt: new Date(channel.created_at).toISOString(),
+  };
+}
+
+// Helper: map a recurring_tasks row to the API shape
+function toRecurringTaskResponse(series: any) {
+  const rule = parseRRule(series.rrule);
+  return {
+    id: series.id.toString(),
+    title: series.title,
+    duration: series.duration_minutes,
+    importance: series.importance,
+    rrule: series.rrule,
+    description: describeRule(rule),
+    startDate: series.start_date,
+    until: rule.until ?? null,
+  };
+}
+
+function buildPrompt({ prefs, tasks, weather, events = [], forecast = null, outdoorWindows = [] }: any) {
   if (!tasks || tasks.length === 0) {
     throw new Error("No tasks provided for planning");
   }
   
+  const titles = new Map(tasks.map((t: any) => [String(t.id), t.title]));
   const taskLines = tasks
-    .map((t: any) => `${t.title || 'Untitled'} – ${t.duration_minutes || 30}m – ${t.importance || 'medium'}`)
+    .map((t: any) => {
+      let line = `[id ${t.id}] ${t.title || 'Untitled'} – ${t.duration_minutes || 30}m – ${t.importance || 'medium'}`;
+      if (t.location) line += ` – ${t.location}`;
+      if (t.fixed_start) line += ` – fixed at ${String(t.fixed_start).slice(0, 5)}`;
+      if (t.deadline) line += ` – finish by ${String(t.deadline).slice(0, 5)}`;
+      const deps = (t.depends_on || []).filter((id: any) => titles.has(String(id)));
+      if (deps.length) line += ` – after ${deps.map((id: any) => `"${titles.get(String(id))}"`).join(", ")}`;
+      return line;
+    })
     .join("\n");
     
+  const eventLines = events.length
+    ? events.map((e: BusyBlock) => `${formatTime(e.start)}-${formatTime(e.end)} ${e.title}`).join("\n")
+    : "none";
+  
+  const strategy = breakStrategyFor(prefs);
+  const meals = mealsFor(prefs);
+  const mealLines = meals.length ? meals.map((m) => `${m.name} at ${m.time} for ${m.duration} minutes`).join(", ") : "none";
+  
   const weatherDesc = weather?.weather?.[0]?.description || "unknown";
   const weatherTemp = weather?.main?.temp || "unknown";
   
+  const forecastLines = forecast
+    ? forecast
+        .map((h: HourlyForecast) => `${formatTime(h.hour * 60)} ${Math.round(h.temp)}°C, ${Math.round(h.precipProbability * 100)}% rain, ${h.description}`)
+        .join("\n")
+    : "not available";
+  const outdoorRule = !forecast
+    ? ""
+    : outdoorWindows.length
+      ? `\n- Tasks marked "outdoor" must lie inside the dry, comfortable hours: ${outdoorWindows.map((w: WeatherWindow) => `${formatTime(w.start)}-${formatTime(w.end)}`).join(", ")}`
+      : `\n- No hours are dry and comfortable today; leave tasks marked "outdoor" out of the schedule`;
+  
   return `You are a personal day planning assistant. Create an optimized daily schedule in JSON format.
 
 User preferences: ${JSON.stringify(prefs || {})}
 Weather: ${weatherDesc}, ${weatherTemp}°C
+Hourly forecast:
+${forecastLines}
 Tasks to schedule:
 ${taskLines}
+Calendar events (fixed, cannot be moved):
+${eventLines}
 
 IMPORTANT: You must respond with COMPLETE, VALID JSON only. No markdown, no explanations, no comments.
 
@@ -526,7 +2950,8 @@ Generate a JSON response with this EXACT structure:
       "time": "HH:MM",
       "activity": "task or break name",
       "duration": "minutes",
-      "type": "task|break|meal"
+      "type": "task|break|meal|event",
+      "taskId": "id of the task (task blocks only)"
     }
   ],
   "summary": "Brief summary of the day plan"
@@ -535,14 +2960,94 @@ Generate a JSON response with this EXACT structure:
 Requirements:
 - Include ALL closing brackets and braces
 - Start with user's wake time (${prefs?.wake_time || '09:00'})
-- Include breaks every ${prefs?.break_interval_minutes || 30} minutes
+- Breaks: ${describeBreakStrategy(strategy)}. Split a task longer than that into parts named "<title> (part 1 of N)", each with the task's taskId
+- Meals (type "meal"): ${mealLines}
 - Schedule all provided tasks
+- Tasks marked "fixed at HH:MM" must start at exactly that time
+- Tasks marked "finish by HH:MM" must end no later than that time
+- Tasks marked "after" must start only once the named tasks have ended
+- Include every calendar event at its time with type "event" and schedule nothing else during it${outdoorRule}
 - End before sleep time (${prefs?.sleep_time || '23:00'})
 - Return ONLY the JSON object, nothing else
 
 Consider the weather, user preferences, task importance, and include appropriate breaks.`;
 }
 
+// Everything a plan is built from and checked against
+interface PlanContext {
+  prefs: any;
+  tasks: any[];
+  events: BusyBlock[];
+  outdoorWindows?: WeatherWindow[]; // from the forecast; undefined when there is none
+}
+
+/**
+ * Ask the AI provider for a plan, validating each answer against the plan schema and
+ * the user's constraints. Violations are sent back to the model for up to
+ * MAX_PLAN_ATTEMPTS answers; the best schema-valid plan is returned together
+ * with whatever violations it still has. Throws if no answer matched the schema.
+ * With `onDelta`, the first answer is streamed through it as it is generated.
+ */
+async function generateAIPlan(prompt: string, context: PlanContext, provider: LLMProvider, onDelta?: (text: string) => void) {
+  const messages: ChatMessage[] = [{ role: "user", content: prompt }];
+  let best: { plan: DayPlan; violations: PlanViolation[] } | null = null;
+  let lastError = "";
+  let attempts = 0;
+
+  while (attempts < MAX_PLAN_ATTEMPTS) {
+    attempts++;
+    const rawContent = attempts === 1 && onDelta
+      ? await streamChat(provider, messages, onDelta)
+      : await provider.chat(messages);
+    let problems: string[];
+
+    let parsed: unknown;
+    try {
+      parsed = parseAIResponse(rawContent);
+    } catch {
+      console.error(`Failed to parse ${provider.name} response:`, rawContent);
+      parsed = undefined;
+    }
+
+    const result = PlanSchema.safeParse(parsed);
+    if (!result.success) {
+      problems = parsed === undefined
+        ? ["The response was not valid JSON"]
+        : formatSchemaIssues(result.error);
+      lastError = `AI response did not match the plan schema: ${problems.join("; ")}`;
+    } else {
+      // Calendar events come from the user's calendars, not from the model
+      const candidate = withCalendarEvents(result.data, context.events, context.prefs?.wake_time);
+      const violations = validatePlan(candidate, context.prefs, context.tasks, { outdoorWindows: context.outdoorWindows });
+      if (!best || violations.length < best.violations.length) {
+        best = { plan: candidate, violations };
+      }
+      if (violations.length === 0) {
+        break;
+      }
+      problems = violations.map((v) => v.message);
+    }
+
+    messages.push(
+      { role: "assistant", content: rawContent },
+      { role: "user", content: buildRepairPrompt(problems) }
+    );
+  }
+
+  if (!best) {
+    throw new Error(lastError || "Failed to parse AI response as JSON");
+  }
+  return { ...best, attempts };
+}
+
+// Helper: follow-up prompt listing what was wrong with the previous answer
+function buildRepairPrompt(problems: string[]) {
+  return `Your schedule breaks these rules:
+${problems.map((p) => `- ${p}`).join("\n")}
+
+Fix every problem and return the complete corrected plan as JSON with the same structure. Return ONLY the JSON object, nothing else.`;
+}
+
 // Helper: parse AI response, handling markdown code blocks and extracting JSON
 function parseAIResponse(rawContent: string): any {
   try {
@@ -608,43 +3113,32 @@ function parseAIResponse(rawContent: string): any {
       console.error("JSON parse error:", parseError);
       console.error("Cleaned content:", cleanedContent);
       
-      // Last resort: create a fallback response
+      // Last resort: extract schedule items manually
       if (cleanedContent.includes('"schedule"')) {
-        try {
-          // Extract schedule items manually
-          const scheduleItems = [];
-          const timeMatches = cleanedContent.match(/"time":\s*"[^"]+"/g);
-          const activityMatches = cleanedContent.match(/"activity":\s*"[^"]+"/g);
-          const durationMatches = cleanedContent.match(/"duration":\s*"[^"]+"/g);
-          const typeMatches = cleanedContent.match(/"type":\s*"[^"]+"/g);
-          
-          if (timeMatches && activityMatches && durationMatches && typeMatches) {
-            const minLength = Math.min(timeMatches.length, activityMatches.length, durationMatches.length, typeMatches.length);
-            for (let i = 0; i < minLength; i++) {
-              scheduleItems.push({
-                time: timeMatches[i].match(/"([^"]+)"/)?.[1] || "09:00",
-                activity: activityMatches[i].match(/"([^"]+)"/)?.[1] || "Task",
-                duration: durationMatches[i].match(/"([^"]+)"/)?.[1] || "30",
-                type: typeMatches[i].match(/"([^"]+)"/)?.[1] || "task"
-              });
-            }
+        const scheduleItems = [];
+        const timeMatches = cleanedContent.match(/"time":\s*"[^"]+"/g);
+        const activityMatches = cleanedContent.match(/"activity":\s*"[^"]+"/g);
+        const durationMatches = cleanedContent.match(/"duration":\s*"[^"]+"/g);
+        const typeMatches = cleanedContent.match(/"type":\s*"[^"]+"/g);
+
+        if (timeMatches && activityMatches && durationMatches && typeMatches) {
+          const minLength = Math.min(timeMatches.length, activityMatches.length, durationMatches.length, typeMatches.length);
+          for (let i = 0; i < minLength; i++) {
+            scheduleItems.push({
+              time: timeMatches[i].match(/"([^"]+)"\s*$/)?.[1] || "09:00",
+              activity: activityMatches[i].match(/"([^"]+)"\s*$/)?.[1] || "Task",
+              duration: durationMatches[i].match(/"([^"]+)"\s*$/)?.[1] || "30",
+              type: typeMatches[i].match(/"([^"]+)"\s*$/)?.[1] || "task"
+            });
           }
-          
+        }
+
+        // Nothing usable: let the caller fall back to the local scheduler
+        if (scheduleItems.length > 0) {
           return {
             schedule: scheduleItems,
             summary: "Daily schedule generated based on your preferences and tasks."
           };
-        } catch {
-          // Ultimate fallback
-          return {
-            schedule: [
-              { time: "09:00", activity: "Morning Task", duration: "60", type: "task" },
-              { time: "10:00", activity: "Break", duration: "15", type: "break" },
-              { time: "10:15", activity: "Work Session", duration: "90", type: "task" },
-              { time: "11:45", activity: "Lunch", duration: "60", type: "meal" }
-            ],
-            summary: "Basic daily schedule created as fallback."
-          };
         }
       }
       
@@ -653,7 +3147,7 @@ function parseAIResponse(rawContent: string): any {
   }
 }
 
-async function getWeather(req: Request, env: Env, sql: Client) {
+async function getWeather(req: Request, env: Env, sql: Db) {
   const userId = await getUserId(req, env);
   
   try {
@@ -670,15 +3164,7 @@ async function getWeather(req: Request, env: Env, sql: Client) {
     const city = rows[0].city;
     
     try {
-      const weatherRes = await fetch(
-        `https://api.openweathermap.org/data/2.5/weather?q=${city}&units=metric&appid=${env.OPENWEATHER_KEY}`
-      );
-      
-      if (!weatherRes.ok) {
-        throw new Error(`Weather API error: ${weatherRes.status}`);
-      }
-      
-      const weather = await weatherRes.json() as any;
+      const { data: weather, cache } = await loadCurrentWeather(env, sql, city);
       
       return json({
         temperature: `${Math.round(weather.main.temp)}°C`,
@@ -686,7 +3172,8 @@ async function getWeather(req: Request, env: Env, sql: Client) {
         location: `${weather.name}, ${weather.sys.country}`,
         icon: weather.weather[0].icon,
         humidity: weather.main.humidity,
-        windSpeed: weather.wind?.speed || 0
+        windSpeed: weather.wind?.speed || 0,
+        cache
       });
     } catch (err: any) {
       console.error("Weather API error:", err);
@@ -698,27 +3185,455 @@ async function getWeather(req: Request, env: Env, sql: Client) {
   }
 }
 
-async function getApod(req: Request, env: Env) {
+async function getApod(req: Request, env: Env, sql: Db) {
   try {
-    const apodRes = await fetch(
-      `https://api.nasa.gov/planetary/apod?api_key=${env.NASA_KEY}`
-    );
-    
-    if (!apodRes.ok) {
-      throw new Error(`NASA APOD API error: ${apodRes.status}`);
-    }
-    
-    const apod = await apodRes.json() as any;
+    const { data: apod, cache } = await loadApod(env, sql);
     
     return json({
       title: apod.title,
       description: apod.explanation,
       imageUrl: apod.url,
       date: apod.date,
-      mediaType: apod.media_type
+      mediaType: apod.media_type,
+      cache
     });
   } catch (err: any) {
     console.error("NASA APOD API error:", err);
     return json({ error: "Failed to fetch NASA APOD data: " + err.message }, 500);
   }
-}
\ No newline at end of file
+}
+
+// --- Reminders -------------------------------------------------
+// The user's reminder channels, and the key browsers need to subscribe to Web Push
+async function getReminderChannels(req: Request, env: Env, sql: Db) {
+  const userId = await getUserId(req, env);
+  
+  try {
+    const { rows } = await sql.query(
+      `SELECT id, kind, config, created_at FROM reminder_channels WHERE user_id = $1 ORDER BY id`,
+      [userId]
+    );
+    return json({ channels: rows.map(toReminderChannelResponse), vapidPublicKey: env.VAPID_PUBLIC_KEY || null });
+  } catch (err: any) {
+    console.error("Database error getting reminder channels:", err);
+    return json({ error: "Failed to retrieve reminder channels: " + err.message }, 500);
+  }
+}
+
+async function createReminderChannel(req: Request, env: Env, sql: Db, body: ReminderChannelInput) {
+  const userId = await getUserId(req, env);
+  
+  // Refuse kinds this server can't deliver rather than failing at every reminder
+  try {
+    createChannel(env, body.kind);
+  } catch (err: any) {
+    return json({ error: err.message }, 400);
+  }
+  
+  let config;
+  if (body.kind === "webhook") {
+    config = body.secret ? { url: body.url, secret: body.secret } : { url: body.url };
+  } else if (body.kind === "webpush") {
+    const { p256dh, auth } = body.subscription.keys;
+    try {
+      if (fromBase64Url(p256dh).length !== 65 || fromBase64Url(auth).length !== 16) {
+        throw new Error();
+      }
+    } catch (err) {
+      return json({ error: "subscription.keys must be the p256dh and auth keys of a push subscription" }, 400);
+    }
+    config = { endpoint: body.subscription.endpoint, keys: { p256dh, auth } };
+  } else {
+    config = { address: body.address };
+  }
+  
+  try {
+    const channel = await sql.transaction(async (tx) => {
+      await ensureUser(tx, userId);
+      const { rows: existing } = await tx.query(
+        `SELECT id, kind, config, created_at FROM reminder_channels WHERE user_id = $1 AND kind = $2 AND config = $3::jsonb`,
+        [userId, body.kind, config]
+      );
+      if (existing.length) {
+        return existing[0];
+      }
+      
+      const { rows: count } = await tx.query(`SELECT count(*)::int AS count FROM reminder_channels WHERE user_id = $1`, [userId]);
+      if (count[0].count >= MAX_REMINDER_CHANNELS) {
+        return null;
+      }
+      const { rows } = await tx.query(
+        `INSERT INTO reminder_channels (user_id, kind, config) VALUES ($1, $2, $3) RETURNING id, kind, config, created_at`,
+        [userId, body.kind, config]
+      );
+      return rows[0];
+    });
+    
+    if (!channel) {
+      return json({ error: `At most ${MAX_REMINDER_CHANNELS} reminder channels; remove one first` }, 400);
+    }
+    return json({ ok: true, channel: toReminderChannelResponse(channel) });
+  } catch (err: any) {
+    console.error("Database error creating reminder channel:", err);
+    return json({ error: "Failed to create reminder channel: " + err.message }, 500);
+  }
+}
+
+async function deleteReminderChannel(req: Request, env: Env, sql: Db, channelId: string) {
+  const userId = await getUserId(req, env);
+  
+  try {
+    const { rowCount } = await sql.query(`DELETE FROM reminder_channels WHERE id = $1 AND user_id = $2`, [channelId, userId]);
+    if (!rowCount) {
+      return json({ error: "Reminder channel not found" }, 404);
+    }
+    return json({ ok: true, message: "Reminder channel deleted successfully" });
+  } catch (err: any) {
+    console.error("Database error deleting reminder channel:", err);
+    return json({ error: "Failed to delete reminder channel: " + err.message }, 500);
+  }
+}
+
+async function testReminders(req: Request, env: Env, sql: Db) {
+  const userId = await getUserId(req, env);
+  
+  try {
+    const { rows: channels } = await sql.query(
+      `SELECT id, kind, config FROM reminder_channels WHERE user_id = $1 ORDER BY id`,
+      [userId]
+    );
+    if (!channels.length) {
+      return json({ error: "No reminder channels to test; add one first" }, 400);
+    }
+    
+    const { today } = await getUserClock(sql, userId);
+    const results = await deliverReminder(env, sql, channels, {
+      type: "test",
+      title: "Test reminder",
+      body: "Reminders for your plan will arrive here.",
+      date: today,
+    });
+    return json({ ok: results.some((result) => result.delivered), results });
+  } catch (err: any) {
+    console.error("Database error testing reminders:", err);
+    return json({ error: "Failed to send test reminder: " + err.message }, 500);
+  }
+}
+
+/**
+ * The cron job. For every user with a reminder channel: a reminder for each
+ * block of the active plan starting within their lead time, and once each
+ * evening a digest of tomorrow. Nothing is sent during quiet hours. A
+ * reminder is recorded before it is sent, so overlapping or repeated runs
+ * never send it twice; if no channel takes it the record is dropped and the
+ * next run tries again.
+ */
+async function sendReminders(env: Env, now: Date) {
+  const sql = createDb(env.NEON_DATABASE_URL);
+  try {
+    if (env.AUTO_MIGRATE === "true") {
+      await ensureMigrated(sql);
+    }
+    await sql.query(
+      `DELETE FROM reminder_deliveries WHERE sent_at < now() - make_interval(days => $1)`,
+      [REMINDER_HISTORY_DAYS]
+    );
+    const { rows } = await sql.query(
+      `SELECT c.user_id, c.id, c.kind, c.config, p.timezone, to_char(p.sleep_time, 'HH24:MI') AS sleep_time, p.reminder_lead_minutes,
+              to_char(p.quiet_hours_start, 'HH24:MI') AS quiet_hours_start, to_char(p.quiet_hours_end, 'HH24:MI') AS quiet_hours_end
+       FROM reminder_channels c LEFT JOIN preferences p ON p.user_id = c.user_id
+       ORDER BY c.user_id, c.id`
+    );
+    
+    const users = new Map<string, any[]>();
+    for (const row of rows) {
+      users.set(row.user_id, [...(users.get(row.user_id) || []), row]);
+    }
+    // One user's failure doesn't hold up the rest
+    for (const [userId, channels] of users) {
+      try {
+        await remindUser(env, sql, userId, channels, now);
+      } catch (err) {
+        console.error(`Failed to send reminders to user ${userId}:`, err);
+      }
+    }
+  } catch (err) {
+    console.error("Reminder run failed:", err);
+  } finally {
+    await sql.end().catch((err) => console.error("Error closing database connection:", err));
+  }
+}
+
+// Helper: one user's share of the cron job; each row of `channels` carries the user's preferences too
+async function remindUser(env: Env, sql: Db, userId: string, channels: any[], now: Date) {
+  const prefs = channels[0];
+  const timezone = isValidTimeZone(prefs.timezone) ? prefs.timezone : "UTC";
+  const local = zonedParts(now, timezone);
+  if (inQuietHours(local.minutes, prefs.quiet_hours_start, prefs.quiet_hours_end)) {
+    return;
+  }
+  
+  // Tomorrow's plan too: its first blocks may be due before midnight
+  const tomorrow = new Date(Date.parse(local.date) + 86400000).toISOString().slice(0, 10);
+  const { rows: plans } = await sql.query(
+    `SELECT plan_date::text AS plan_date, plan_json FROM plans WHERE user_id = $1 AND plan_date IN ($2, $3)`,
+    [userId, local.date, tomorrow]
+  );
+  
+  const send = async (key: string, build: () => Promise<Reminder | null>) => {
+    const { rows: claimed } = await sql.query(
+      `INSERT INTO reminder_deliveries (user_id, reminder_key) VALUES ($1, $2) ON CONFLICT DO NOTHING RETURNING reminder_key`,
+      [userId, key]
+    );
+    if (!claimed.length) {
+      return;
+    }
+    const reminder = await build();
+    if (!reminder) {
+      return;
+    }
+    const results = await deliverReminder(env, sql, channels, reminder);
+    if (!results.some((result) => result.delivered)) {
+      await sql.query(`DELETE FROM reminder_deliveries WHERE user_id = $1 AND reminder_key = $2`, [userId, key]);
+    }
+  };
+  
+  for (const plan of plans) {
+    const due = dueBlockReminders(plan.plan_date, plan.plan_json.schedule || [], now, prefs.reminder_lead_minutes ?? 10);
+    for (const reminder of due) {
+      // Keyed by what starts when, not by block ID: regenerating the plan gives
+      // every block a new ID, and the same block at the same time is reminded of once
+      await send(`block:${reminder.startsAt}:${reminder.title}`, async () => reminder);
+    }
+  }
+  
+  if (local.minutes >= digestMinutes(prefs.sleep_time)) {
+    await send(`digest:${tomorrow}`, async () => {
+      const plan = plans.find((row) => row.plan_date === tomorrow);
+      if (plan) {
+        return digestReminder(tomorrow, plan.plan_json.schedule || [], []);
+      }
+      await materializeRecurringTasks(sql, userId, tomorrow);
+      const { rows: tasks } = await sql.query(
+        `SELECT title FROM tasks WHERE user_id = $1 AND task_date = $2 AND status = ANY($3) ORDER BY id`,
+        [userId, tomorrow, UNFINISHED_STATUSES]
+      );
+      return digestReminder(tomorrow, null, tasks.map((task) => task.title));
+    });
+  }
+}
+
+// Helper: send `reminder` on every channel at once. A channel whose destination
+// is gone is removed; other failures are reported per channel, not thrown.
+async function deliverReminder(env: Env, sql: Queryable, channels: any[], reminder: Reminder) {
+  return Promise.all(
+    channels.map(async (channel) => {
+      const result = { channelId: channel.id.toString(), kind: channel.kind, delivered: false } as {
+        channelId: string; kind: string; delivered: boolean; error?: string;
+      };
+      try {
+        result.delivered = await createChannel(env, channel.kind).send(channel.config, reminder);
+        if (!result.delivered) {
+          await sql.query(`DELETE FROM reminder_channels WHERE id = $1`, [channel.id]);
+          result.error = "The destination no longer exists; the channel was removed";
+        }
+      } catch (err: any) {
+        console.error(`Reminder delivery failed on channel ${channel.id}:`, err);
+        result.error = err.message;
+      }
+      return result;
+    })
+  );
+}
+
+// --- Account ---------------------------------------------------
+// Everything stored about the signed-in user as one JSON file (GDPR data export)
+async function exportAccount(req: Request, env: Env, sql: Db) {
+  const userId = await getUserId(req, env);
+  
+  try {
+    const { rows: users } = await sql.query(`SELECT plan_tier, calendar_token FROM users WHERE id = $1`, [userId]);
+    const { rows: prefs } = await sql.query(
+      `SELECT ${PREFERENCES_COLUMNS} FROM preferences WHERE user_id = $1`,
+      [userId]
+    );
+    const { rows: tasks } = await sql.query(
+      `SELECT ${TASK_COLUMNS}, completed_at FROM tasks WHERE user_id = $1 ORDER BY task_date NULLS FIRST, id`,
+      [userId]
+    );
+    const { rows: series } = await sql.query(
+      `SELECT ${RECURRING_TASK_COLUMNS},
+              ARRAY(SELECT occurrence_date::text FROM recurring_task_exceptions e WHERE e.recurring_task_id = r.id ORDER BY occurrence_date) AS skipped_dates
+       FROM recurring_tasks r WHERE user_id = $1 ORDER BY id`,
+      [userId]
+    );
+    const { rows: plans } = await sql.query(
+      `SELECT plan_date::text AS plan_date, plan_json, violations, active_version FROM plans WHERE user_id = $1 ORDER BY plan_date`,
+      [userId]
+    );
+    const { rows: versions } = await sql.query(
+      `SELECT plan_date::text AS plan_date, version, plan_json, violations, engine, prompt, weather, created_at
+       FROM plan_versions WHERE user_id = $1 ORDER BY plan_date, version`,
+      [userId]
+    );
+    const { rows: feeds } = await sql.query(
+      `SELECT name, ics_body, updated_at FROM calendar_feeds WHERE user_id = $1 ORDER BY name`,
+      [userId]
+    );
+    const { rows: channels } = await sql.query(
+      `SELECT id, kind, config, created_at FROM reminder_channels WHERE user_id = $1 ORDER BY id`,
+      [userId]
+    );
+    
+    const exportedAt = new Date().toISOString();
+    const res = json({
+      exportedAt,
+      user: {
+        id: userId,
+        planTier: users[0]?.plan_tier ?? "free",
+        // The token itself is a credential, so only say whether one exists
+        calendarSubscription: Boolean(users[0]?.calendar_token),
+      },
+      preferences: prefs.length ? toPreferencesResponse(prefs[0]) : null,
+      tasks: tasks.map((task) => ({ ...toTaskResponse(task), completedAt: task.completed_at })),
+      recurringTasks: series.map((row) => ({ ...toRecurringTaskResponse(row), skippedDates: row.skipped_dates })),
+      plans: plans.map((row) => ({
+        date: row.plan_date,
+        plan: row.plan_json,
+        violations: row.violations,
+        activeVersion: row.active_version,
+        versions: versions
+          .filter((v) => v.plan_date === row.plan_date)
+          .map((v) => ({
+            version: v.version,
+            engine: v.engine,
+            createdAt: v.created_at,
+            plan: v.plan_json,
+            violations: v.violations,
+            prompt: v.prompt,
+            weather: v.weather,
+          })),
+      })),
+      calendarFeeds: feeds.map((feed) => ({ name: feed.name, updatedAt: feed.updated_at, ics: feed.ics_body })),
+      reminderChannels: channels.map(toReminderChannelResponse),
+    });
+    res.headers.set("Content-Disposition", `attachment; filename="planmyday-export-${exportedAt.slice(0, 10)}.json"`);
+    return res;
+  } catch (err: any) {
+    console.error("Database error exporting account:", err);
+    return json({ error: "Failed to export account data: " + err.message }, 500);
+  }
+}
+
+// Delete the signed-in user's data. Their Clerk account is left alone; deleting
+// that as well sends a user.deleted webhook, which finds nothing left to remove.
+async function deleteAccount(req: Request, env: Env, sql: Db) {
+  const userId = await getUserId(req, env);
+  
+  try {
+    await deleteUserData(sql, userId);
+    return json({ ok: true, message: "Account data deleted" });
+  } catch (err: any) {
+    console.error("Database error deleting account:", err);
+    return json({ error: "Failed to delete account data: " + err.message }, 500);
+  }
+}
+
+/**
+ * Keep users in step with Clerk: user.created adds the users row, user.deleted
+ * removes everything stored for the user. Clerk signs each delivery with the
+ * CLERK_WEBHOOK_SIGNING_SECRET from the webhook's endpoint settings; without
+ * the secret configured the endpoint doesn't exist. Other events are ignored.
+ */
+async function clerkWebhook(req: Request, env: Env, sql: Db) {
+  if (!env.CLERK_WEBHOOK_SIGNING_SECRET) {
+    return json({ error: "Not found" }, 404);
+  }
+  
+  let event: WebhookEvent;
+  try {
+    event = await verifyWebhook(req, { signingSecret: env.CLERK_WEBHOOK_SIGNING_SECRET });
+  } catch (err) {
+    console.error("Clerk webhook verification failed:", err);
+    return json({ error: "Invalid webhook signature" }, 400);
+  }
+  
+  try {
+    if (event.type === "user.created") {
+      await ensureUser(sql, event.data.id);
+      return json({ ok: true, message: "User created" });
+    }
+    if (event.type === "user.deleted" && event.data.id) {
+      await deleteUserData(sql, event.data.id);
+      return json({ ok: true, message: "User deleted" });
+    }
+    return json({ ok: true, message: `Ignored ${event.type} event` });
+  } catch (err: any) {
+    // A 500 makes Clerk retry the delivery later
+    console.error(`Database error handling Clerk ${event.type} webhook:`, err);
+    return json({ error: "Failed to handle webhook: " + err.message }, 500);
+  }
+}
+
+// --- Admin -----------------------------------------------------
+// Applied and pending schema migrations
+async function getMigrations(req: Request, env: Env, sql: Db) {
+  const denied = checkAdmin(req, env);
+  if (denied) {
+    return denied;
+  }
+  
+  try {
+    return json(await migrationStatus(sql));
+  } catch (err: any) {
+    console.error("Database error reading migrations:", err);
+    return json({ error: "Failed to read migrations: " + err.message }, 500);
+  }
+}
+
+// Apply pending schema migrations
+async function runMigrations(req: Request, env: Env, sql: Db) {
+  const denied = checkAdmin(req, env);
+  if (denied) {
+    return denied;
+  }
+  
+  try {
+    const applied = await migrate(sql);
+    const status = await migrationStatus(sql);
+    return json({ ok: true, message: applied.length ? `Applied ${applied.length} migrations` : "Already up to date", applied, current: status.current });
+  } catch (err: any) {
+    console.error("Migration failed:", err);
+    return json({ error: err.message }, 500);
+  }
+}
+
+// Move a user to another plan tier, which sets their rate limits. Body: `{ tier }`
+async function setUserTier(req: Request, env: Env, sql: Db) {
+  const denied = checkAdmin(req, env);
+  if (denied) {
+    return denied;
+  }
+  
+  const userId = decodeURIComponent(new URL(req.url).pathname.split('/')[4] || "");
+  let body;
+  try {
+    body = await req.json() as { tier?: string };
+  } catch (err) {
+    return json({ error: "Invalid JSON in request body" }, 400);
+  }
+  if (!PLAN_TIERS.includes(body?.tier as any)) {
+    return json({ error: `Invalid tier. Must be one of: ${PLAN_TIERS.join(', ')}` }, 400);
+  }
+  
+  try {
+    const result = await sql.query(`UPDATE users SET plan_tier = $2 WHERE id = $1`, [userId, body.tier]);
+    if (result.rowCount === 0) {
+      return json({ error: "User not found" }, 404);
+    }
+    return json({ ok: true, message: `User moved to the ${body.tier} tier` });
+  } catch (err: any) {
+    console.error("Database error setting user tier:", err);
+    return json({ error: "Failed to set tier: " + err.message }, 500);
+  }
+}
@@ -0,0 +1,249 @@
+// src/llm.ts
+// Chat model providers for AI plan generation, chosen and configured through env vars:
+//   LLM_PROVIDER     mistral (default), openai, workers-ai or mock
+//   LLM_MODEL        model name; each provider has a default except openai
+//   LLM_BASE_URL     API root for openai, e.g. https://api.openai.com/v1 or a local server
+//   LLM_API_KEY      key for openai (mistral uses MISTRAL_API_KEY)
+//   LLM_MAX_TOKENS, LLM_TEMPERATURE
+//   LLM_MOCK_RESPONSES  JSON array of canned answers for the mock provider
+// Workers AI uses the `AI` binding instead of a key.
+
+export type ChatMessage = { role: "system" | "user" | "assistant"; content: string };
+
+export interface LLMProvider {
+  name: string; // reported as the plan's engine
+  chat(messages: ChatMessage[]): Promise<string>;
+  stream?(messages: ChatMessage[]): AsyncIterable<string>; // the answer in pieces as it is generated
+}
+
+export const LLM_PROVIDERS = ["mistral", "openai", "workers-ai", "mock"];
+
+const DEFAULT_MAX_TOKENS = 1000;
+const DEFAULT_TEMPERATURE = 0.7;
+const DEFAULT_MISTRAL_MODEL = "mistral-large-latest";
+const DEFAULT_WORKERS_AI_MODEL = "@cf/meta/llama-3.1-8b-instruct";
+
+interface ChatOptions {
+  model: string;
+  maxTokens: number;
+  temperature: number;
+}
+
+/**
+ * The provider named by LLM_PROVIDER. Throws with a readable message when it
+ * is unknown or missing its configuration, so the caller can fall back to the
+ * local planner.
+ */
+export function createProvider(env: Env): LLMProvider {
+  const name = (env.LLM_PROVIDER || "mistral").toLowerCase();
+  const maxTokens = env.LLM_MAX_TOKENS ? Number(env.LLM_MAX_TOKENS) : DEFAULT_MAX_TOKENS;
+  const temperature = env.LLM_TEMPERATURE ? Number(env.LLM_TEMPERATURE) : DEFAULT_TEMPERATURE;
+  if (!Number.isInteger(maxTokens) || maxTokens <= 0) {
+    throw new Error("LLM_MAX_TOKENS must be a positive whole number");
+  }
+  if (isNaN(temperature) || temperature < 0) {
+    throw new Error("LLM_TEMPERATURE must be a number of at least 0");
+  }
+
+  switch (name) {
+    case "mistral":
+      if (!env.MISTRAL_API_KEY) {
+        throw new Error("MistralAI API key is not configured");
+      }
+      return openAICompatible("mistral", "https://api.mistral.ai/v1", env.MISTRAL_API_KEY, {
+        model: env.LLM_MODEL || DEFAULT_MISTRAL_MODEL,
+        maxTokens,
+        temperature,
+      });
+    case "openai":
+      if (!env.LLM_BASE_URL || !env.LLM_MODEL) {
+        throw new Error("The openai provider needs LLM_BASE_URL and LLM_MODEL");
+      }
+      return openAICompatible("openai", env.LLM_BASE_URL, env.LLM_API_KEY, { model: env.LLM_MODEL, maxTokens, temperature });
+    case "workers-ai":
+      if (!env.AI) {
+        throw new Error("The workers-ai provider needs the AI binding in wrangler.jsonc");
+      }
+      return workersAI(env.AI, { model: env.LLM_MODEL || DEFAULT_WORKERS_AI_MODEL, maxTokens, temperature });
+    case "mock":
+      return mockProvider(env.LLM_MOCK_RESPONSES ? parseMockResponses(env.LLM_MOCK_RESPONSES) : []);
+    default:
+      throw new Error(`Unknown LLM_PROVIDER "${name}". Must be one of: ${LLM_PROVIDERS.join(", ")}`);
+  }
+}
+
+/**
+ * Stream the answer to `messages` through `onDelta` and return it complete.
+ * Providers that can't stream deliver the whole answer as one piece.
+ */
+export async function streamChat(provider: LLMProvider, messages: ChatMessage[], onDelta: (text: string) => void): Promise<string> {
+  if (!provider.stream) {
+    const answer = await provider.chat(messages);
+    onDelta(answer);
+    return answer;
+  }
+
+  let answer = "";
+  for await (const delta of provider.stream(messages)) {
+    answer += delta;
+    onDelta(delta);
+  }
+  return answer;
+}
+
+// Helper: the `data:` payloads of a Server-Sent Events body
+async function* sseData(body: ReadableStream<Uint8Array>): AsyncIterable<string> {
+  const reader = body.pipeThrough(new TextDecoderStream()).getReader();
+  let buffer = "";
+  while (true) {
+    const { value, done } = await reader.read();
+    if (done) break;
+    buffer += value;
+    const lines = buffer.split("\n");
+    buffer = lines.pop();
+    for (const line of lines) {
+      if (line.startsWith("data:")) {
+        yield line.slice(5).trim();
+      }
+    }
+  }
+}
+
+// Any /chat/completions API in the OpenAI format: Mistral, OpenAI, Groq, Ollama, vLLM...
+function openAICompatible(name: string, baseUrl: string, apiKey: string | undefined, options: ChatOptions): LLMProvider {
+  const request = (messages: ChatMessage[], stream: boolean) =>
+    fetch(`${baseUrl.replace(/\/+$/, "")}/chat/completions`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        ...(apiKey && { Authorization: `Bearer ${apiKey}` }),
+      },
+      body: JSON.stringify({
+        model: options.model,
+        messages,
+        max_tokens: options.maxTokens,
+        temperature: options.temperature,
+        ...(stream && { stream: true }),
+      }),
+    });
+
+  return {
+    name,
+    async *stream(messages) {
+      const res = await request(messages, true);
+      if (!res.ok || !res.body) {
+        throw new Error(`${name} API error: ${res.status} ${res.statusText}`);
+      }
+      for await (const data of sseData(res.body)) {
+        if (data === "[DONE]") break;
+        const chunk = JSON.parse(data) as { choices?: Array<{ delta?: { content?: string } }> };
+        const delta = chunk.choices?.[0]?.delta?.content;
+        if (delta) yield delta;
+      }
+    },
+    async chat(messages) {
+      const res = await request(messages, false);
+
+      if (!res.ok) {
+        throw new Error(`${name} API error: ${res.status} ${res.statusText}`);
+      }
+
+      const ai = await res.json() as { choices: Array<{ message: { content: string } }> };
+      if (!ai.choices || !ai.choices[0] || !ai.choices[0].message) {
+        throw new Error(`Invalid response from ${name}`);
+      }
+      return ai.choices[0].message.content;
+    },
+  };
+}
+
+// Cloudflare Workers AI through the `AI` binding; no network credentials needed
+function workersAI(ai: Ai, options: ChatOptions): LLMProvider {
+  return {
+    name: "workers-ai",
+    async *stream(messages) {
+      const body = await ai.run(options.model as any, {
+        messages,
+        max_tokens: options.maxTokens,
+        temperature: options.temperature,
+        stream: true,
+      }) as ReadableStream<Uint8Array>;
+
+      for await (const data of sseData(body)) {
+        if (data === "[DONE]") break;
+        const chunk = JSON.parse(data) as { response?: string };
+        if (chunk.response) yield chunk.response;
+      }
+    },
+    async chat(messages) {
+      const result = await ai.run(options.model as any, {
+        messages,
+        max_tokens: options.maxTokens,
+        temperature: options.temperature,
+      }) as { response?: string };
+
+      if (typeof result?.response !== "string") {
+        throw new Error("Invalid response from Workers AI");
+      }
+      return result.response;
+    },
+  };
+}
+
+// Helper: LLM_MOCK_RESPONSES holds answers as strings or as plan objects
+function parseMockResponses(value: string): string[] {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(value);
+  } catch {
+    throw new Error("LLM_MOCK_RESPONSES must be a JSON array");
+  }
+  if (!Array.isArray(parsed) || !parsed.length) {
+    throw new Error("LLM_MOCK_RESPONSES must be a non-empty JSON array");
+  }
+  return parsed.map((item) => (typeof item === "string" ? item : JSON.stringify(item)));
+}
+
+/**
+ * A provider that never leaves the Worker. With `responses` it returns them
+ * in turn, repeating the last one, which lets tests script the repair loop.
+ * Without, it answers every plan prompt the same way: the prompt's tasks back
+ * to back from the wake time it names.
+ */
+export function mockProvider(responses: string[] = []): LLMProvider {
+  let calls = 0;
+  const answer = (messages: ChatMessage[]) =>
+    responses.length
+      ? responses[Math.min(calls++, responses.length - 1)]
+      : cannedPlan(messages.find((m) => m.role === "user")?.content || "");
+
+  return {
+    name: "mock",
+    async chat(messages) {
+      return answer(messages);
+    },
+    // Small fixed-size pieces, like a model emitting tokens
+    async *stream(messages) {
+      const text = answer(messages);
+      for (let i = 0; i < text.length; i += 16) {
+        yield text.slice(i, i + 16);
+      }
+    },
+  };
+}
+
+// Helper: a plan built from the task lines of a buildPrompt prompt
+function cannedPlan(prompt: string): string {
+  const wake = /wake time \((\d{1,2}):(\d{2})\)/.exec(prompt);
+  let minutes = wake ? Number(wake[1]) * 60 + Number(wake[2]) : 9 * 60;
+  const schedule = [];
+
+  for (const match of prompt.matchAll(/^\[id ([^\]]+)\] (.+?) – (\d+)m/gm)) {
+    const [, taskId, activity, duration] = match;
+    const time = `${String(Math.floor(minutes / 60) % 24).padStart(2, "0")}:${String(minutes % 60).padStart(2, "0")}`;
+    schedule.push({ time, activity, duration, type: "task", taskId });
+    minutes += Number(duration);
+  }
+
+  return JSON.stringify({ schedule, summary: `Mock plan with ${schedule.length} tasks back to back.` });
+}
@@ -0,0 +1,293 @@
+// src/migrations.ts
+// Versioned database schema. Each migration runs once, in order, in its own
+// transaction, and is recorded in schema_migrations. Apply them through
+// POST /api/admin/migrations, or set AUTO_MIGRATE=true to apply them on the
+// first request a Worker instance serves.
+//
+// Migrations use IF NOT EXISTS throughout so they also adopt databases that
+// were set up by hand before migrations existed. Never edit one that has
+// shipped; add a new one instead.
+import type { Db, Queryable } from "./db";
+import { BREAK_STYLES, COMMUTE_MODES, PEAK_FOCUS_TIMES, PLAN_TIERS, REMINDER_CHANNEL_KINDS, TASK_LOCATIONS, TASK_STATUSES } from "./enums";
+
+export interface Migration {
+  version: number;
+  name: string;
+  sql: string;
+}
+
+// Session lock that keeps two Workers from migrating at the same time
+const MIGRATION_LOCK_ID = 7261537;
+
+// Helper: values as an SQL list for a check constraint, e.g. 'walk', 'bike'
+function sqlList(values: readonly string[]) {
+  return values.map((value) => `'${value.replace(/'/g, "''")}'`).join(", ");
+}
+
+export const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    name: "initial_schema",
+    sql: `
+      CREATE TABLE IF NOT EXISTS users (
+        id text PRIMARY KEY
+      );
+
+      CREATE TABLE IF NOT EXISTS preferences (
+        user_id text PRIMARY KEY REFERENCES users (id) ON DELETE CASCADE,
+        wake_time time NOT NULL,
+        sleep_time time NOT NULL,
+        peak_focus text NOT NULL CHECK (peak_focus IN (${sqlList(PEAK_FOCUS_TIMES)})),
+        city text NOT NULL,
+        break_style text NOT NULL,
+        break_interval_minutes integer NOT NULL CHECK (break_interval_minutes > 0),
+        max_work_hours real NOT NULL CHECK (max_work_hours > 0 AND max_work_hours <= 24),
+        commute_mode text NOT NULL CHECK (commute_mode IN (${sqlList(COMMUTE_MODES)}))
+      );
+
+      CREATE TABLE IF NOT EXISTS tasks (
+        id serial PRIMARY KEY,
+        user_id text NOT NULL REFERENCES users (id) ON DELETE CASCADE,
+        title text NOT NULL,
+        duration_minutes integer NOT NULL CHECK (duration_minutes > 0),
+        importance text NOT NULL,
+        task_date date
+      );
+      CREATE INDEX IF NOT EXISTS tasks_user_id_task_date_idx ON tasks (user_id, task_date);
+
+      CREATE TABLE IF NOT EXISTS plans (
+        user_id text NOT NULL REFERENCES users (id) ON DELETE CASCADE,
+        plan_date date NOT NULL,
+        plan_json jsonb NOT NULL,
+        PRIMARY KEY (user_id, plan_date)
+      );
+    `,
+  },
+  {
+    version: 2,
+    name: "task_lifecycle_and_constraints",
+    sql: `
+      ALTER TABLE tasks ALTER COLUMN task_date DROP NOT NULL;
+      ALTER TABLE tasks ADD COLUMN IF NOT EXISTS status text NOT NULL DEFAULT 'todo'
+        CHECK (status IN (${sqlList(TASK_STATUSES)}));
+      ALTER TABLE tasks ADD COLUMN IF NOT EXISTS completed_at timestamptz;
+      ALTER TABLE tasks ADD COLUMN IF NOT EXISTS rolled_over_from date;
+      ALTER TABLE tasks ADD COLUMN IF NOT EXISTS fixed_start time;
+      ALTER TABLE tasks ADD COLUMN IF NOT EXISTS deadline time;
+      ALTER TABLE tasks ADD COLUMN IF NOT EXISTS depends_on integer[] NOT NULL DEFAULT '{}';
+      ALTER TABLE tasks ADD COLUMN IF NOT EXISTS location text
+        CHECK (location IN (${sqlList(TASK_LOCATIONS)}));
+    `,
+  },
+  {
+    version: 3,
+    name: "recurring_tasks",
+    sql: `
+      CREATE TABLE IF NOT EXISTS recurring_tasks (
+        id serial PRIMARY KEY,
+        user_id text NOT NULL REFERENCES users (id) ON DELETE CASCADE,
+        title text NOT NULL,
+        duration_minutes integer NOT NULL CHECK (duration_minutes > 0),
+        importance text NOT NULL,
+        rrule text NOT NULL,
+        start_date date NOT NULL
+      );
+      CREATE INDEX IF NOT EXISTS recurring_tasks_user_id_idx ON recurring_tasks (user_id);
+
+      -- Occurrences the user deleted, so they are not created again
+      CREATE TABLE IF NOT EXISTS recurring_task_exceptions (
+        recurring_task_id integer NOT NULL REFERENCES recurring_tasks (id) ON DELETE CASCADE,
+        occurrence_date date NOT NULL,
+        PRIMARY KEY (recurring_task_id, occurrence_date)
+      );
+
+      ALTER TABLE tasks ADD COLUMN IF NOT EXISTS recurring_task_id integer
+        REFERENCES recurring_tasks (id) ON DELETE SET NULL;
+      ALTER TABLE tasks ADD COLUMN IF NOT EXISTS occurrence_date date;
+      CREATE UNIQUE INDEX IF NOT EXISTS tasks_recurring_task_id_occurrence_date_key
+        ON tasks (recurring_task_id, occurrence_date);
+    `,
+  },
+  {
+    version: 4,
+    name: "calendars_and_timezones",
+    sql: `
+      ALTER TABLE users ADD COLUMN IF NOT EXISTS calendar_token text UNIQUE;
+      ALTER TABLE preferences ADD COLUMN IF NOT EXISTS timezone text NOT NULL DEFAULT 'UTC';
+
+      CREATE TABLE IF NOT EXISTS calendar_feeds (
+        id serial PRIMARY KEY,
+        user_id text NOT NULL REFERENCES users (id) ON DELETE CASCADE,
+        name text NOT NULL,
+        ics_body text NOT NULL,
+        updated_at timestamptz NOT NULL DEFAULT now(),
+        UNIQUE (user_id, name)
+      );
+    `,
+  },
+  {
+    version: 5,
+    name: "plan_versions",
+    sql: `
+      ALTER TABLE plans ADD COLUMN IF NOT EXISTS violations jsonb NOT NULL DEFAULT '[]';
+      ALTER TABLE plans ADD COLUMN IF NOT EXISTS active_version integer;
+
+      CREATE TABLE IF NOT EXISTS plan_versions (
+        user_id text NOT NULL REFERENCES users (id) ON DELETE CASCADE,
+        plan_date date NOT NULL,
+        version integer NOT NULL,
+        plan_json jsonb NOT NULL,
+        violations jsonb NOT NULL DEFAULT '[]',
+        engine text NOT NULL,
+        prompt text,
+        weather jsonb,
+        created_at timestamptz NOT NULL DEFAULT now(),
+        PRIMARY KEY (user_id, plan_date, version)
+      );
+    `,
+  },
+  {
+    version: 6,
+    name: "api_cache",
+    sql: `
+      CREATE TABLE IF NOT EXISTS api_cache (
+        key text PRIMARY KEY,
+        value jsonb NOT NULL,
+        fetched_at timestamptz NOT NULL
+      );
+    `,
+  },
+  {
+    version: 7,
+    name: "rate_limits",
+    sql: `
+      ALTER TABLE users ADD COLUMN IF NOT EXISTS plan_tier text NOT NULL DEFAULT 'free'
+        CHECK (plan_tier IN (${sqlList(PLAN_TIERS)}));
+
+      -- One row per caller, bucket and window length, reset when a new window starts
+      CREATE TABLE IF NOT EXISTS rate_limits (
+        key text NOT NULL,
+        bucket text NOT NULL,
+        window_seconds integer NOT NULL,
+        window_start timestamptz NOT NULL,
+        count integer NOT NULL,
+        PRIMARY KEY (key, bucket, window_seconds)
+      );
+    `,
+  },
+  {
+    version: 8,
+    name: "reminders",
+    sql: `
+      ALTER TABLE preferences ADD COLUMN IF NOT EXISTS reminder_lead_minutes integer NOT NULL DEFAULT 10
+        CHECK (reminder_lead_minutes BETWEEN 0 AND 120);
+      ALTER TABLE preferences ADD COLUMN IF NOT EXISTS quiet_hours_start time;
+      ALTER TABLE preferences ADD COLUMN IF NOT EXISTS quiet_hours_end time;
+
+      CREATE TABLE IF NOT EXISTS reminder_channels (
+        id serial PRIMARY KEY,
+        user_id text NOT NULL REFERENCES users (id) ON DELETE CASCADE,
+        kind text NOT NULL CHECK (kind IN (${sqlList(REMINDER_CHANNEL_KINDS)})),
+        config jsonb NOT NULL,
+        created_at timestamptz NOT NULL DEFAULT now(),
+        UNIQUE (user_id, kind, config)
+      );
+
+      -- Reminders already sent, so a late or repeated cron run doesn't send one twice
+      CREATE TABLE IF NOT EXISTS reminder_deliveries (
+        user_id text NOT NULL REFERENCES users (id) ON DELETE CASCADE,
+        reminder_key text NOT NULL,
+        sent_at timestamptz NOT NULL DEFAULT now(),
+        PRIMARY KEY (user_id, reminder_key)
+      );
+    `,
+  },
+  {
+    version: 9,
+    name: "break_strategies",
+    sql: `
+      -- break_style used to be free text; keep what clearly names a strategy, the rest becomes custom
+      UPDATE preferences SET break_style = CASE
+          WHEN break_style ILIKE '%pomodoro%' THEN 'pomodoro'
+          WHEN break_style ILIKE '%ultradian%' THEN 'ultradian'
+          WHEN break_style ~ '52' THEN '52-17'
+          ELSE 'custom'
+        END
+        WHERE break_style NOT IN (${sqlList(BREAK_STYLES)});
+      ALTER TABLE preferences DROP CONSTRAINT IF EXISTS preferences_break_style_check;
+      ALTER TABLE preferences ADD CONSTRAINT preferences_break_style_check
+        CHECK (break_style IN (${sqlList(BREAK_STYLES)}));
+
+      ALTER TABLE preferences ADD COLUMN IF NOT EXISTS break_minutes integer NOT NULL DEFAULT 15
+        CHECK (break_minutes BETWEEN 1 AND 60);
+      -- Null means the default meals in src/breaks.ts
+      ALTER TABLE preferences ADD COLUMN IF NOT EXISTS meals jsonb;
+    `,
+  },
+];
+
+export interface MigrationStatus {
+  current: number; // highest applied version, 0 for an empty database
+  applied: Array<{ version: number; name: string; appliedAt: string }>;
+  pending: Array<{ version: number; name: string }>;
+}
+
+// Helper: create the bookkeeping table on first use
+async function ensureMigrationsTable(sql: Queryable) {
+  await sql.query(
+    `CREATE TABLE IF NOT EXISTS schema_migrations (
+       version integer PRIMARY KEY,
+       name text NOT NULL,
+       applied_at timestamptz NOT NULL DEFAULT now()
+     )`
+  );
+}
+
+// Which migrations have been applied and which are still to run
+export async function migrationStatus(sql: Queryable, migrations = MIGRATIONS): Promise<MigrationStatus> {
+  await ensureMigrationsTable(sql);
+  const { rows } = await sql.query(`SELECT version, name, applied_at FROM schema_migrations ORDER BY version`);
+  const done = new Set(rows.map((row) => Number(row.version)));
+
+  return {
+    current: rows.length ? Number(rows[rows.length - 1].version) : 0,
+    applied: rows.map((row) => ({ version: Number(row.version), name: row.name, appliedAt: new Date(row.applied_at).toISOString() })),
+    pending: migrations.filter((m) => !done.has(m.version)).map(({ version, name }) => ({ version, name })),
+  };
+}
+
+/**
+ * Apply every pending migration in version order and return the versions
+ * applied. A failing migration is rolled back and stops the run, so the
+ * database is left at the last version that succeeded.
+ */
+export async function migrate(db: Db, migrations = MIGRATIONS): Promise<number[]> {
+  // The lock and the transactions below need one connection throughout
+  return db.session(async (sql) => {
+    await ensureMigrationsTable(sql);
+    await sql.query(`SELECT pg_advisory_lock($1)`, [MIGRATION_LOCK_ID]);
+    try {
+      // Read what's applied only once holding the lock: another Worker may just have finished
+      const { rows } = await sql.query(`SELECT version FROM schema_migrations`);
+      const done = new Set(rows.map((row) => Number(row.version)));
+      const applied: number[] = [];
+
+      for (const migration of [...migrations].sort((a, b) => a.version - b.version)) {
+        if (done.has(migration.version)) continue;
+        try {
+          await sql.query("BEGIN");
+          await sql.query(migration.sql);
+          await sql.query(`INSERT INTO schema_migrations (version, name) VALUES ($1, $2)`, [migration.version, migration.name]);
+          await sql.query("COMMIT");
+        } catch (err: any) {
+          await sql.query("ROLLBACK").catch(() => {});
+          throw new Error(`Migration ${migration.version} (${migration.name}) failed: ${err.message}`);
+        }
+        applied.push(migration.version);
+      }
+      return applied;
+    } finally {
+      await sql.query(`SELECT pg_advisory_unlock($1)`, [MIGRATION_LOCK_ID]);
+    }
+  });
+}
@@ -0,0 +1,71 @@
+// src/planDiff.ts
+// Structured comparison of two versions of a day plan
+import type { ScheduleBlock } from "./planSchema";
+
+export interface BlockSlot {
+  time: string;
+  duration: string;
+}
+
+export interface BlockChange {
+  activity: string;
+  type: ScheduleBlock["type"];
+  taskId?: string;
+}
+
+export interface PlanDiff {
+  added: (BlockChange & BlockSlot)[];
+  removed: (BlockChange & BlockSlot)[];
+  moved: (BlockChange & { from: BlockSlot; to: BlockSlot })[];
+  unchanged: number;
+}
+
+// Helper: what a block is, independent of when it happens. Task blocks are
+// identified by task ID when they have one, everything else by type and name.
+function blockKey(block: ScheduleBlock) {
+  if (block.type === "task" && block.taskId !== undefined) {
+    return `task:${block.taskId}`;
+  }
+  return `${block.type}:${(block.activity || "").toLowerCase().replace(/[^a-z0-9]+/g, " ").trim()}`;
+}
+
+const change = (block: ScheduleBlock): BlockChange => ({
+  activity: block.activity,
+  type: block.type,
+  ...(block.taskId !== undefined && { taskId: block.taskId }),
+});
+
+const slot = (block: ScheduleBlock): BlockSlot => ({ time: block.time, duration: block.duration });
+
+/**
+ * Compare two schedules. Blocks with the same identity are paired in
+ * schedule order (so a task split into two parts pairs part by part); a pair
+ * whose time or duration differs is "moved", and unpaired blocks are "added"
+ * or "removed".
+ */
+export function diffPlans(before: { schedule: ScheduleBlock[] }, after: { schedule: ScheduleBlock[] }): PlanDiff {
+  const remaining = new Map<string, ScheduleBlock[]>();
+  for (const block of before?.schedule || []) {
+    const key = blockKey(block);
+    remaining.set(key, [...(remaining.get(key) || []), block]);
+  }
+
+  const diff: PlanDiff = { added: [], removed: [], moved: [], unchanged: 0 };
+  for (const block of after?.schedule || []) {
+    const previous = remaining.get(blockKey(block))?.shift();
+    if (!previous) {
+      diff.added.push({ ...change(block), ...slot(block) });
+    } else if (previous.time !== block.time || String(previous.duration) !== String(block.duration)) {
+      diff.moved.push({ ...change(block), from: slot(previous), to: slot(block) });
+    } else {
+      diff.unchanged++;
+    }
+  }
+
+  for (const blocks of remaining.values()) {
+    for (const block of blocks) {
+      diff.removed.push({ ...change(block), ...slot(block) });
+    }
+  }
+  return diff;
+}
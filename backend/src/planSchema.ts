@@ -0,0 +1,75 @@
+// src/planSchema.ts
+// Typed schema for a day plan, shared by the AI and local engines
+import { z } from "zod";
+import { scheduleInstants } from "./time";
+
+// "event" blocks come from the user's imported calendars and can't be moved
+export const SCHEDULE_BLOCK_TYPES = ["task", "break", "meal", "event"] as const;
+
+// "9:00" and "09:00" are both accepted; output is always zero-padded "HH:MM"
+const TimeSchema = z
+  .string()
+  .trim()
+  .regex(/^([0-1]?[0-9]|2[0-3]):[0-5][0-9]$/, "must be in HH:MM format")
+  .transform((value) => value.padStart(5, "0"));
+
+// The model sometimes answers 60, "60" or "60 minutes"; keep the string shape the frontend expects
+const DurationSchema = z
+  .union([z.string(), z.number()])
+  .transform((value) => parseInt(String(value), 10))
+  .refine((value) => Number.isInteger(value) && value > 0, "must be a positive number of minutes")
+  .transform((value) => String(value));
+
+export const ScheduleBlockSchema = z.object({
+  time: TimeSchema,
+  activity: z.string().trim().min(1, "must not be empty"),
+  duration: DurationSchema,
+  type: z.enum(SCHEDULE_BLOCK_TYPES),
+  // ID of the task a "task" block works on; lets validation tell same-named tasks apart
+  taskId: z.union([z.string(), z.number()]).transform((value) => String(value)).optional(),
+});
+
+export const PlanSchema = z.object({
+  schedule: z.array(ScheduleBlockSchema).min(1, "must contain at least one block"),
+  summary: z.string().trim().min(1, "must not be empty"),
+});
+
+export type ScheduleBlock = z.output<typeof ScheduleBlockSchema>;
+export type DayPlan = z.output<typeof PlanSchema>;
+
+// Check-in states for a block, recorded by the user as the day goes
+export const BLOCK_STATUSES = ["started", "finished", "skipped"] as const;
+
+// A block as stored in plans.plan_json once the server has stamped it
+export interface StoredBlock extends ScheduleBlock {
+  id: string; // unique within the plan; only blocks a re-plan keeps from before `now` carry theirs over
+  startsAt: string; // UTC, ISO 8601
+  endsAt: string;
+  status?: (typeof BLOCK_STATUSES)[number];
+  startedAt?: string; // actual times, ISO 8601
+  finishedAt?: string;
+}
+
+// Helper: give each block an ID (kept if it already has one) and its UTC start
+// and end, so clients in any zone (and on DST transition days) show the block
+// at the right moment
+export function stampBlocks(plan: DayPlan, date: string, timezone: string): DayPlan & { schedule: StoredBlock[] } {
+  const starts = scheduleInstants(date, plan.schedule.map((block) => block.time), timezone);
+  return {
+    ...plan,
+    schedule: plan.schedule.map((block: ScheduleBlock & { id?: string }, index) => ({
+      ...block,
+      id: block.id || crypto.randomUUID(),
+      startsAt: starts[index].toISOString(),
+      endsAt: new Date(starts[index].getTime() + Number(block.duration) * 60000).toISOString(),
+    })),
+  };
+}
+
+// Helper: flatten zod issues into readable "path: message" strings
+export function formatSchemaIssues(error: z.ZodError): string[] {
+  return error.issues.map((issue) => {
+    const path = issue.path.join(".");
+    return path ? `${path}: ${issue.message}` : issue.message;
+  });
+}
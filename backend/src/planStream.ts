@@ -0,0 +1,79 @@
+// src/planStream.ts
+// Pull schedule blocks out of a plan answer while the model is still writing it
+import { ScheduleBlockSchema, type ScheduleBlock } from "./planSchema";
+
+export interface BlockParser {
+  push(text: string): void;
+}
+
+/**
+ * Feed the model's answer in as it arrives; `onBlock` is called once for each
+ * object in the "schedule" array as soon as its closing brace arrives and it
+ * matches the block schema. Blocks that don't parse are skipped here: the
+ * complete answer still goes through parseAIResponse and the plan schema,
+ * which decide the final plan.
+ */
+export function createBlockParser(onBlock: (block: ScheduleBlock, index: number) => void): BlockParser {
+  let buffer = "";
+  let pos = -1; // next character to scan, once the schedule array has been found
+  let depth = 0; // brace/bracket nesting inside the array
+  let inString = false;
+  let escaped = false;
+  let objectStart = -1;
+  let done = false;
+  let count = 0;
+
+  const emit = (text: string) => {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(text);
+    } catch {
+      return;
+    }
+    const result = ScheduleBlockSchema.safeParse(parsed);
+    if (result.success) {
+      onBlock(result.data, count++);
+    }
+  };
+
+  return {
+    push(text) {
+      if (done) return;
+      buffer += text;
+
+      if (pos === -1) {
+        const match = /"schedule"\s*:\s*\[/.exec(buffer);
+        if (!match) return;
+        pos = match.index + match[0].length;
+      }
+
+      for (; pos < buffer.length; pos++) {
+        const char = buffer[pos];
+        if (inString) {
+          if (escaped) escaped = false;
+          else if (char === "\\") escaped = true;
+          else if (char === '"') inString = false;
+          continue;
+        }
+
+        if (char === '"') {
+          inString = true;
+        } else if (char === "{" || char === "[") {
+          if (depth === 0 && char === "{") objectStart = pos;
+          depth++;
+        } else if (char === "}" || char === "]") {
+          if (depth === 0) {
+            // End of the schedule array
+            done = true;
+            return;
+          }
+          depth--;
+          if (depth === 0 && char === "}" && objectStart !== -1) {
+            emit(buffer.slice(objectStart, pos + 1));
+            objectStart = -1;
+          }
+        }
+      }
+    },
+  };
+}
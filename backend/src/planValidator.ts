@@ -0,0 +1,185 @@
+// src/planValidator.ts
+// Checks a schema-valid plan against the user's preferences and tasks
+import type { DayPlan } from "./planSchema";
+import { formatTime, toMinutes } from "./time";
+
+export type ViolationCode =
+  | "missing_task"
+  | "before_wake"
+  | "after_sleep"
+  | "overlap"
+  | "max_work_hours"
+  | "fixed_start"
+  | "deadline"
+  | "dependency_order"
+  | "event_conflict"
+  | "outdoor_weather";
+
+// Violations that mean the plan ignores something the user pinned down explicitly
+export const HARD_VIOLATIONS: ViolationCode[] = ["fixed_start", "deadline", "dependency_order", "event_conflict"];
+
+export interface PlanViolation {
+  code: ViolationCode;
+  message: string;
+  block?: number; // index into plan.schedule
+}
+
+export interface ValidationOptions {
+  outdoorWindows?: Array<{ start: number; end: number }>; // dry, comfortable stretches from the forecast
+}
+
+// Helper: compare titles ignoring case, punctuation and extra whitespace
+function normalizeTitle(value: string) {
+  return (value || "").toLowerCase().replace(/[^a-z0-9]+/g, " ").trim();
+}
+
+// A block covers a task when its activity names the task, e.g. "Write report" or "Write report (part 1)"
+export function blockMatchesTask(activity: string, title: string) {
+  const a = normalizeTitle(activity);
+  const t = normalizeTitle(title);
+  return t.length > 0 && (a === t || a.includes(t));
+}
+
+/**
+ * List every constraint the plan breaks. An empty list means the plan
+ * schedules every task, stays between wake and sleep time, has no
+ * overlapping blocks, keeps task time within `max_work_hours`, starts pinned
+ * tasks at their `fixed_start`, finishes tasks by their `deadline` and runs
+ * every task after the tasks it `depends_on`. Calendar events may sit
+ * outside waking hours, but nothing may overlap them. With `outdoorWindows`,
+ * outdoor tasks must also lie inside one of them.
+ */
+export function validatePlan(plan: DayPlan, prefs: any, tasks: any[], options: ValidationOptions = {}): PlanViolation[] {
+  const violations: PlanViolation[] = [];
+  const wake = toMinutes(prefs?.wake_time, "09:00");
+  let sleep = toMinutes(prefs?.sleep_time, "23:00");
+  const wrapsMidnight = sleep <= wake;
+  if (wrapsMidnight) {
+    sleep += 24 * 60;
+  }
+
+  // Times earlier than wake belong to the small hours of the next day
+  const dayMinutes = (value: string) => {
+    const minutes = toMinutes(value, "00:00");
+    return wrapsMidnight && minutes < wake ? minutes + 24 * 60 : minutes;
+  };
+
+  const blocks = plan.schedule.map((block, index) => {
+    const start = dayMinutes(block.time);
+    return { index, block, start, end: start + Number(block.duration) };
+  });
+
+  // A task's blocks are those carrying its ID, or naming it when the model left the ID out
+  const blocksFor = (task: any) =>
+    blocks.filter(({ block }) =>
+      block.type === "task" &&
+      (block.taskId !== undefined ? block.taskId === String(task.id) : blockMatchesTask(block.activity, task.title))
+    );
+  const taskSpans = new Map<string, { start: number; end: number }>();
+  for (const task of tasks) {
+    const taskBlocks = blocksFor(task);
+    if (!taskBlocks.length) {
+      violations.push({ code: "missing_task", message: `Task "${task.title}" is not in the schedule` });
+      continue;
+    }
+    taskSpans.set(String(task.id), {
+      start: Math.min(...taskBlocks.map((b) => b.start)),
+      end: Math.max(...taskBlocks.map((b) => b.end)),
+    });
+  }
+
+  for (const task of tasks) {
+    const span = taskSpans.get(String(task.id));
+    if (!span) continue;
+
+    if (task.fixed_start) {
+      const pinned = dayMinutes(task.fixed_start);
+      if (span.start !== pinned) {
+        violations.push({
+          code: "fixed_start",
+          message: `"${task.title}" must start at ${formatTime(pinned)} but starts at ${formatTime(span.start)}`,
+        });
+      }
+    }
+    if (task.deadline) {
+      const deadline = dayMinutes(task.deadline);
+      if (span.end > deadline) {
+        violations.push({
+          code: "deadline",
+          message: `"${task.title}" must finish by ${formatTime(deadline)} but ends at ${formatTime(span.end)}`,
+        });
+      }
+    }
+    if (task.location === "outdoor" && options.outdoorWindows) {
+      for (const { index, block, start, end } of blocksFor(task)) {
+        if (!options.outdoorWindows.some((w) => w.start <= start && end <= w.end)) {
+          violations.push({
+            code: "outdoor_weather",
+            block: index,
+            message: `Outdoor task "${task.title}" at ${block.time} is outside the dry, comfortable hours`,
+          });
+        }
+      }
+    }
+    for (const depId of task.depends_on || []) {
+      const depSpan = taskSpans.get(String(depId));
+      const dep = tasks.find((t) => String(t.id) === String(depId));
+      if (depSpan && depSpan.end > span.start) {
+        violations.push({
+          code: "dependency_order",
+          message: `"${task.title}" starts at ${formatTime(span.start)} before "${dep.title}" finishes at ${formatTime(depSpan.end)}`,
+        });
+      }
+    }
+  }
+
+  for (const { index, block, start, end } of blocks) {
+    if (block.type === "event") continue;
+    if (start < wake) {
+      violations.push({
+        code: "before_wake",
+        block: index,
+        message: `"${block.activity}" starts at ${block.time}, before wake time ${formatTime(wake)}`,
+      });
+    }
+    if (end > sleep) {
+      violations.push({
+        code: "after_sleep",
+        block: index,
+        message: `"${block.activity}" ends at ${formatTime(end)}, after sleep time ${formatTime(sleep)}`,
+      });
+    }
+  }
+
+  // Compare each block with the earlier block that reaches furthest, so a long
+  // block overlapping several later ones is reported for each of them
+  const sorted = [...blocks].sort((a, b) => a.start - b.start);
+  let reach = sorted[0];
+  for (const curr of sorted.slice(1)) {
+    // Overlapping calendar events are the user's own business
+    const bothEvents = curr.block.type === "event" && reach.block.type === "event";
+    if (curr.start < reach.end && !bothEvents) {
+      violations.push({
+        code: reach.block.type === "event" || curr.block.type === "event" ? "event_conflict" : "overlap",
+        block: curr.index,
+        message: `"${curr.block.activity}" at ${curr.block.time} overlaps "${reach.block.activity}" (${reach.block.time}-${formatTime(reach.end)})`,
+      });
+    }
+    if (curr.end > reach.end) {
+      reach = curr;
+    }
+  }
+
+  const maxWorkMinutes = (Number(prefs?.max_work_hours) || 8) * 60;
+  const workMinutes = blocks
+    .filter(({ block }) => block.type === "task")
+    .reduce((sum, { start, end }) => sum + (end - start), 0);
+  if (workMinutes > maxWorkMinutes) {
+    violations.push({
+      code: "max_work_hours",
+      message: `Tasks take ${workMinutes} minutes, more than the ${maxWorkMinutes / 60} hour maximum`,
+    });
+  }
+
+  return violations;
+}
@@ -0,0 +1,396 @@
+// src/quickAdd.ts
+// Quick add: turn a line like "review Q3 deck 90m high priority tomorrow
+// before 3pm" into task fields. The parser is rule-based and deterministic;
+// every field comes with a confidence so the client can ask the user to
+// confirm the shaky ones, and `ambiguous` says what an AI pass could resolve.
+import { formatTime, isValidDate } from "./time";
+
+export const IMPORTANCE_LEVELS = ["high", "medium", "low"] as const;
+export type Importance = (typeof IMPORTANCE_LEVELS)[number];
+
+export interface ParsedField<T> {
+  value: T;
+  confidence: number; // 0 to 1
+  source: "text" | "default" | "ai"; // found in the text, assumed, or suggested by the model
+  match?: string; // the words it was read from
+}
+
+export interface QuickAddFields {
+  title: ParsedField<string>;
+  duration: ParsedField<number>; // minutes
+  importance: ParsedField<Importance>;
+  date: ParsedField<string | null>; // YYYY-MM-DD; null puts the task in the backlog
+  deadline: ParsedField<string | null>; // HH:MM
+  fixedStart: ParsedField<string | null>; // HH:MM
+}
+
+export interface QuickAddResult {
+  text: string;
+  fields: QuickAddFields;
+  confidence: number; // the lowest field confidence
+  ambiguous: string[]; // what the parser had to guess at
+}
+
+// Used when the text doesn't say, with how sure we are of each guess
+const DEFAULT_DURATION = 30;
+const DEFAULTS = {
+  duration: 0.3,
+  importance: 0.5,
+  date: 0.6,
+  time: 0.8, // most tasks have no deadline or start time
+};
+
+// Longest task the API accepts from quick add
+const MAX_DURATION = 24 * 60;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const WEEKDAYS = ["sunday", "monday", "tuesday", "wednesday", "thursday", "friday", "saturday"];
+const MONTHS = ["jan", "feb", "mar", "apr", "may", "jun", "jul", "aug", "sep", "oct", "nov", "dec"];
+
+// A clock time: 3pm, 3:30 pm, 15:00, noon, midnight
+const TIME = String.raw`(noon|midnight|\d{1,2}(?::\d{2})?\s*(?:am|pm|a\.m\.|p\.m\.)?)`;
+const WEEKDAY = String.raw`(mon(?:day)?|tue(?:s|sday)?|wed(?:nesday)?|thu(?:r|rs|rsday)?|fri(?:day)?|sat(?:urday)?|sun(?:day)?)`;
+const MONTH = String.raw`(jan(?:uary)?|feb(?:ruary)?|mar(?:ch)?|apr(?:il)?|may|june?|july?|aug(?:ust)?|sep(?:t(?:ember)?)?|oct(?:ober)?|nov(?:ember)?|dec(?:ember)?)`;
+// After a clock time, so "by 14 march" and "at 3 days" aren't read as times
+const TIME_END = String.raw`(?=\s|$|[,.;!])(?!\s+(?:of\s+)?(?:${MONTH.slice(1, -1)})\b|\s*(?:st|nd|rd|th|h|hrs?|hours?|m|mins?|minutes?|days?|weeks?)\b)`;
+
+// Helper: YYYY-MM-DD plus `days`
+function addDays(date: string, days: number): string {
+  return new Date(Date.parse(`${date}T00:00:00Z`) + days * DAY_MS).toISOString().slice(0, 10);
+}
+
+// Helper: weekday of a YYYY-MM-DD date, 0 = Sunday
+function weekdayOf(date: string): number {
+  return new Date(`${date}T00:00:00Z`).getUTCDay();
+}
+
+/**
+ * Helper: a clock time to "HH:MM". Without am/pm, 1 to 7 are read as
+ * afternoon (nobody means 3 in the morning) and the result is marked unsure.
+ */
+function parseClock(text: string): { time: string; sure: boolean } | null {
+  const value = text.toLowerCase().replace(/\./g, "").replace(/\s+/g, "");
+  if (value === "noon") {
+    return { time: "12:00", sure: true };
+  }
+  if (value === "midnight") {
+    return { time: "23:59", sure: true };
+  }
+
+  const match = /^(\d{1,2})(?::(\d{2}))?(am|pm)?$/.exec(value);
+  if (!match) {
+    return null;
+  }
+  let hours = Number(match[1]);
+  const minutes = Number(match[2] || 0);
+  const meridiem = match[3];
+  if (minutes > 59) {
+    return null;
+  }
+  if (meridiem) {
+    if (hours < 1 || hours > 12) {
+      return null;
+    }
+    hours = (hours % 12) + (meridiem === "pm" ? 12 : 0);
+    return { time: formatTime(hours * 60 + minutes), sure: true };
+  }
+  if (hours > 23) {
+    return null;
+  }
+  // "15:00" or "09:30" is unambiguous; a bare "3" or "3:30" is not
+  const sure = hours === 0 || hours >= 13 || (match[1].length === 2 && match[1].startsWith("0"));
+  if (!sure && hours >= 1 && hours <= 7) {
+    hours += 12;
+  }
+  return { time: formatTime(hours * 60 + minutes), sure };
+}
+
+// Helper: the date a weekday name refers to, counted from the day after `today`
+function nextWeekday(today: string, name: string): string {
+  const target = WEEKDAYS.findIndex((day) => day.startsWith(name.slice(0, 3)));
+  const ahead = (target - weekdayOf(today) + 7) % 7 || 7;
+  return addDays(today, ahead);
+}
+
+// Helper: "mar" and "14" to the next such date on or after `today`
+function monthDay(today: string, month: string, day: number): string | null {
+  const monthIndex = MONTHS.indexOf(month.slice(0, 3));
+  let year = Number(today.slice(0, 4));
+  const format = (y: number) => `${y}-${String(monthIndex + 1).padStart(2, "0")}-${String(day).padStart(2, "0")}`;
+  if (format(year) < today) {
+    year++;
+  }
+  return isValidDate(format(year)) ? format(year) : null;
+}
+
+interface Rule<K extends keyof QuickAddFields> {
+  field: K;
+  pattern: RegExp;
+  // The field's value and confidence, or null when the match isn't one after all
+  read(match: RegExpExecArray, today: string): { value: QuickAddFields[K]["value"]; confidence: number; note?: string } | null;
+}
+
+type AnyRule = { [K in keyof QuickAddFields]: Rule<K> }[keyof QuickAddFields];
+
+// Applied in order, each to what earlier rules left over, so times are taken
+// before durations and dates get a chance at "by friday" only after "by 3pm"
+const RULES: AnyRule[] = [
+  {
+    field: "deadline",
+    pattern: new RegExp(String.raw`\b(?:before|by|until|due(?:\s+by)?|no later than)\s+${TIME}${TIME_END}`, "i"),
+    read(match) {
+      const clock = parseClock(match[1]);
+      return clock && { value: clock.time, confidence: clock.sure ? 0.9 : 0.6, note: clock.sure ? undefined : `"${match[0].trim()}" has no am/pm` };
+    },
+  },
+  {
+    field: "fixedStart",
+    pattern: new RegExp(String.raw`(?:\bat\s+|@\s*)${TIME}${TIME_END}`, "i"),
+    read(match) {
+      const clock = parseClock(match[1]);
+      return clock && { value: clock.time, confidence: clock.sure ? 0.9 : 0.6, note: clock.sure ? undefined : `"${match[0].trim()}" has no am/pm` };
+    },
+  },
+  {
+    field: "duration",
+    pattern: /\b(?:for\s+|takes\s+|~\s*)?(\d+(?:\.\d+)?)\s*(?:h|hrs?|hours?)(?:\s*(?:and\s+)?(\d+)\s*(?:m|mins?|minutes?))?\b/i,
+    read(match) {
+      const minutes = Math.round(Number(match[1]) * 60 + Number(match[2] || 0));
+      return minutes > 0 && minutes <= MAX_DURATION ? { value: minutes, confidence: 0.95 } : null;
+    },
+  },
+  {
+    field: "duration",
+    pattern: /\b(?:for\s+|takes\s+|~\s*)?(\d+)\s*(?:m|mins?|minutes?)\b/i,
+    read(match) {
+      const minutes = Number(match[1]);
+      return minutes > 0 && minutes <= MAX_DURATION ? { value: minutes, confidence: 0.95 } : null;
+    },
+  },
+  {
+    field: "duration",
+    pattern: /\b(?:for\s+|takes\s+)?(half an hour|an hour and a half|an hour|a quarter of an hour|quarter of an hour)\b/i,
+    read(match) {
+      const minutes: Record<string, number> = {
+        "half an hour": 30, "an hour and a half": 90, "an hour": 60, "a quarter of an hour": 15, "quarter of an hour": 15,
+      };
+      return { value: minutes[match[1].toLowerCase()], confidence: 0.85 };
+    },
+  },
+  {
+    field: "importance",
+    pattern: /(?:\b(high|medium|normal|low)\s+(?:priority|importance)\b|\bpriority\s+(high|medium|normal|low)\b|!(high|medium|low)\b|\bp([123])\b)/i,
+    read(match) {
+      const word = (match[1] || match[2] || match[3] || "").toLowerCase();
+      const level = match[4] ? IMPORTANCE_LEVELS[Number(match[4]) - 1] : word === "normal" ? "medium" : word as Importance;
+      return { value: level, confidence: 0.95 };
+    },
+  },
+  {
+    field: "importance",
+    pattern: /(\burgent\b|\basap\b|!!+)/i,
+    read: () => ({ value: "high", confidence: 0.85 }),
+  },
+  {
+    field: "importance",
+    pattern: /\b(important|whenever)\b/i,
+    read: (match) => ({ value: match[1].toLowerCase() === "important" ? "high" : "low", confidence: 0.7 }),
+  },
+  {
+    field: "date",
+    pattern: /\b(someday|backlog|no date)\b/i,
+    read: () => ({ value: null, confidence: 0.9 }),
+  },
+  {
+    field: "date",
+    pattern: /\b(?:due\s+|on\s+|by\s+)?(the\s+)?day after tomorrow\b/i,
+    read: (_match, today) => ({ value: addDays(today, 2), confidence: 0.95 }),
+  },
+  {
+    field: "date",
+    pattern: /\b(?:due\s+|by\s+)?(today|tonight|this (?:morning|afternoon|evening)|tomorrow|tmrw|tmr)\b/i,
+    read(match, today) {
+      return { value: /^(?:tomorrow|tmrw|tmr)$/i.test(match[1]) ? addDays(today, 1) : today, confidence: 0.95 };
+    },
+  },
+  {
+    field: "date",
+    pattern: /\bin\s+(\d+|a|one|two|three)\s+(days?|weeks?)\b/i,
+    read(match, today) {
+      const words: Record<string, number> = { a: 1, one: 1, two: 2, three: 3 };
+      const count = words[match[1].toLowerCase()] ?? Number(match[1]);
+      const days = count * (/^week/i.test(match[2]) ? 7 : 1);
+      return days > 0 && days <= 366 ? { value: addDays(today, days), confidence: 0.9 } : null;
+    },
+  },
+  {
+    field: "date",
+    pattern: /\bnext week\b/i,
+    read: (_match, today) => ({ value: nextWeekday(today, "monday"), confidence: 0.7, note: `"next week" was read as next Monday` }),
+  },
+  {
+    field: "date",
+    pattern: new RegExp(String.raw`\b(?:due\s+|on\s+|by\s+)?(next\s+|this\s+)?${WEEKDAY}\b`, "i"),
+    read(match, today) {
+      const date = nextWeekday(today, match[2].toLowerCase());
+      if (/^next/i.test(match[1] || "")) {
+        return { value: date, confidence: 0.6, note: `"${match[0].trim()}" could mean this coming ${WEEKDAYS[weekdayOf(date)]} or the one after` };
+      }
+      // Three-letter forms ("sat", "sun") are also ordinary words
+      return { value: date, confidence: match[2].length > 3 ? 0.9 : 0.7 };
+    },
+  },
+  {
+    field: "date",
+    pattern: /\b(?:due\s+|on\s+|by\s+)?(\d{4}-\d{2}-\d{2})\b/,
+    read: (match) => (isValidDate(match[1]) ? { value: match[1], confidence: 1 } : null),
+  },
+  {
+    field: "date",
+    pattern: new RegExp(String.raw`\b(?:due\s+|on\s+|by\s+)?(?:${MONTH}\s+(\d{1,2})(?:st|nd|rd|th)?|(\d{1,2})(?:st|nd|rd|th)?\s+(?:of\s+)?${MONTH})\b`, "i"),
+    read(match, today) {
+      const month = (match[1] || match[4]).toLowerCase();
+      const date = monthDay(today, month, Number(match[2] || match[3]));
+      return date && { value: date, confidence: 0.9 };
+    },
+  },
+];
+
+// Helper: what's left once the parsed phrases are taken out, without dangling connectors
+function cleanTitle(text: string): string {
+  let title = text.replace(/\s+/g, " ").trim();
+  let previous;
+  do {
+    previous = title;
+    title = title
+      .replace(/^(?:to|on|at|by|for|due|in|and|,|-)\s+/i, "")
+      .replace(/\s+(?:on|at|by|for|due|in|and|with|,|-)$/i, "")
+      .replace(/^[\s,.;:!-]+|[\s,.;:!-]+$/g, "");
+  } while (title !== previous);
+  return title;
+}
+
+/**
+ * Parse a quick-add line. `today` (YYYY-MM-DD, in the user's timezone) is
+ * what relative dates like "tomorrow" and "friday" count from. Each field is
+ * taken from the first phrase that matches it; further phrases for the same
+ * field are dropped from the title and reported in `ambiguous`.
+ */
+export function parseQuickAdd(text: string, today: string): QuickAddResult {
+  let rest = ` ${text} `;
+  const found: Partial<QuickAddFields> = {};
+  const ambiguous: string[] = [];
+
+  for (const rule of RULES) {
+    const pattern = new RegExp(rule.pattern.source, rule.pattern.flags.includes("g") ? rule.pattern.flags : rule.pattern.flags + "g");
+    rest = rest.replace(pattern, (...args) => {
+      const match = args.slice(0, -2) as unknown as RegExpExecArray;
+      const phrase = String(match[0]).trim();
+      const result = rule.read(match, today);
+      if (!result) {
+        return match[0];
+      }
+      const existing = found[rule.field];
+      if (existing) {
+        if (existing.value !== result.value) {
+          ambiguous.push(`Found more than one ${rule.field}: "${existing.match}" and "${phrase}"`);
+          existing.confidence = Math.min(existing.confidence, 0.5);
+        }
+      } else {
+        (found as any)[rule.field] = { value: result.value, confidence: result.confidence, source: "text", match: phrase };
+        if (result.note) {
+          ambiguous.push(result.note);
+        }
+      }
+      return " ";
+    });
+  }
+
+  const title = cleanTitle(rest);
+  if (!title) {
+    ambiguous.push("No title left once the date, time, duration and importance were taken out");
+  }
+
+  const fields: QuickAddFields = {
+    title: { value: title, confidence: title ? (title.split(" ").length > 1 ? 0.9 : 0.75) : 0, source: "text" },
+    duration: found.duration ?? { value: DEFAULT_DURATION, confidence: DEFAULTS.duration, source: "default" },
+    importance: found.importance ?? { value: "medium", confidence: DEFAULTS.importance, source: "default" },
+    date: found.date ?? { value: today, confidence: DEFAULTS.date, source: "default" },
+    deadline: found.deadline ?? { value: null, confidence: DEFAULTS.time, source: "default" },
+    fixedStart: found.fixedStart ?? { value: null, confidence: DEFAULTS.time, source: "default" },
+  };
+
+  if (fields.fixedStart.value && fields.deadline.value && fields.fixedStart.value >= fields.deadline.value) {
+    ambiguous.push(`The start time ${fields.fixedStart.value} is not before the deadline ${fields.deadline.value}`);
+    fields.fixedStart.confidence = Math.min(fields.fixedStart.confidence, 0.4);
+    fields.deadline.confidence = Math.min(fields.deadline.confidence, 0.4);
+  }
+
+  return {
+    text,
+    fields,
+    confidence: Math.min(...Object.values(fields).map((field) => field.confidence)),
+    ambiguous,
+  };
+}
+
+// Confidence given to a field the model filled in
+const AI_CONFIDENCE = 0.75;
+
+/**
+ * Take the model's reading of the text (see quickAddPrompt) for the fields
+ * the parser was unsure of. Values that don't validate are ignored, so a
+ * confused answer can only leave the local result as it was.
+ */
+export function mergeAIFields(result: QuickAddResult, answer: any): QuickAddResult {
+  const fields = { ...result.fields };
+  const valid: { [K in keyof QuickAddFields]: (value: any) => boolean } = {
+    title: (value) => typeof value === "string" && value.trim().length > 0,
+    duration: (value) => Number.isInteger(value) && value > 0 && value <= MAX_DURATION,
+    importance: (value) => IMPORTANCE_LEVELS.includes(value),
+    date: (value) => value === null || (typeof value === "string" && isValidDate(value)),
+    deadline: (value) => value === null || (typeof value === "string" && /^([01][0-9]|2[0-3]):[0-5][0-9]$/.test(value)),
+    fixedStart: (value) => value === null || (typeof value === "string" && /^([01][0-9]|2[0-3]):[0-5][0-9]$/.test(value)),
+  };
+
+  for (const key of Object.keys(fields) as Array<keyof QuickAddFields>) {
+    if (!answer || !(key in answer) || !valid[key](answer[key]) || fields[key].confidence >= AI_CONFIDENCE) {
+      continue;
+    }
+    const value = typeof answer[key] === "string" && key === "title" ? answer[key].trim() : answer[key];
+    (fields as any)[key] = { value, confidence: AI_CONFIDENCE, source: "ai" };
+  }
+
+  return {
+    ...result,
+    fields,
+    confidence: Math.min(...Object.values(fields).map((field) => field.confidence)),
+  };
+}
+
+// The prompt asking the model to read a quick-add line, with what the parser made of it
+export function quickAddPrompt(result: QuickAddResult, today: string): string {
+  const guesses = Object.entries(result.fields)
+    .map(([key, field]) => `- ${key}: ${JSON.stringify(field.value)} (${field.source}, confidence ${field.confidence})`)
+    .join("\n");
+
+  return `Read this to-do list entry and return the task it describes.
+
+Entry: ${JSON.stringify(result.text)}
+Today is ${today} (${WEEKDAYS[weekdayOf(today)]}).
+
+A rule-based parser read it as:
+${guesses}
+It was unsure because:
+${result.ambiguous.map((reason) => `- ${reason}`).join("\n")}
+
+Return ONLY a JSON object with these keys:
+{
+  "title": "what to do, without the date, time, duration or priority words",
+  "duration": minutes as a whole number,
+  "importance": "high" | "medium" | "low",
+  "date": "YYYY-MM-DD" or null for no particular day,
+  "deadline": "HH:MM" (24-hour) the task must be finished by, or null,
+  "fixedStart": "HH:MM" (24-hour) the task must start at, or null
+}`;
+}
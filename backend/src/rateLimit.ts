@@ -0,0 +1,115 @@
+// src/rateLimit.ts
+// Per-user request limits for routes that cost money or upstream quota, kept
+// as fixed-window counters in the rate_limits table so every Worker instance
+// sees the same counts. Limits depend on the user's plan tier and can be
+// overridden with the RATE_LIMITS env var, a JSON object shaped like
+// DEFAULT_RATE_LIMITS, e.g. {"free": {"plan": [{"limit": 5, "windowSeconds": 86400}]}}.
+import type { Queryable } from "./db";
+import type { PLAN_TIERS } from "./enums";
+
+export type PlanTier = (typeof PLAN_TIERS)[number];
+
+// plan: plan generation (LLM calls); ai: other LLM calls, such as quick add; proxy: weather and APOD lookups
+export type RateLimitBucket = "plan" | "ai" | "proxy";
+
+export interface RateLimit {
+  limit: number; // requests allowed per window
+  windowSeconds: number; // windows start at multiples of this since the Unix epoch, so days start at 00:00 UTC
+}
+
+export const DEFAULT_RATE_LIMITS: Record<PlanTier, Record<RateLimitBucket, RateLimit[]>> = {
+  free: {
+    plan: [{ limit: 3, windowSeconds: 60 }, { limit: 20, windowSeconds: 86400 }],
+    ai: [{ limit: 5, windowSeconds: 60 }, { limit: 50, windowSeconds: 86400 }],
+    proxy: [{ limit: 30, windowSeconds: 60 }],
+  },
+  pro: {
+    plan: [{ limit: 10, windowSeconds: 60 }, { limit: 200, windowSeconds: 86400 }],
+    ai: [{ limit: 20, windowSeconds: 60 }, { limit: 500, windowSeconds: 86400 }],
+    proxy: [{ limit: 120, windowSeconds: 60 }],
+  },
+};
+
+export interface RateLimitResult {
+  allowed: boolean;
+  limit: number; // the limit closest to running out, or the one that was hit
+  remaining: number;
+  resetSeconds: number; // until that limit's window ends
+  windowSeconds: number;
+  policy: string; // every limit in the bucket, e.g. "3;w=60, 20;w=86400"
+}
+
+/**
+ * The limits for `tier` in `bucket`, shortest window first. Throws when
+ * RATE_LIMITS is set but malformed, so a typo doesn't silently lift them.
+ */
+export function rateLimitsFor(env: Env, tier: string, bucket: RateLimitBucket): RateLimit[] {
+  let overrides: any = {};
+  if (env.RATE_LIMITS) {
+    try {
+      overrides = JSON.parse(env.RATE_LIMITS);
+    } catch {
+      throw new Error("RATE_LIMITS must be a JSON object");
+    }
+  }
+
+  const limits: RateLimit[] = overrides?.[tier]?.[bucket] ?? DEFAULT_RATE_LIMITS[tier as PlanTier]?.[bucket] ?? DEFAULT_RATE_LIMITS.free[bucket];
+  if (!Array.isArray(limits) || !limits.every((l) => Number.isInteger(l?.limit) && l.limit > 0 && Number.isInteger(l?.windowSeconds) && l.windowSeconds > 0)) {
+    throw new Error(`RATE_LIMITS.${tier}.${bucket} must be a list of { limit, windowSeconds } with positive whole numbers`);
+  }
+  return [...limits].sort((a, b) => a.windowSeconds - b.windowSeconds);
+}
+
+/**
+ * Count one request by `key` against each of `limits`. Windows are checked
+ * shortest first and a refused request is not counted against the longer
+ * ones, so a client hammering a per-minute limit doesn't burn its daily quota.
+ */
+export async function consumeRateLimit(
+  sql: Queryable,
+  key: string,
+  bucket: RateLimitBucket,
+  limits: RateLimit[],
+  now = new Date()
+): Promise<RateLimitResult> {
+  const policy = limits.map((l) => `${l.limit};w=${l.windowSeconds}`).join(", ");
+  const nowSeconds = Math.floor(now.getTime() / 1000);
+  let tightest: RateLimitResult | null = null;
+
+  for (const { limit, windowSeconds } of limits) {
+    const windowStart = nowSeconds - (nowSeconds % windowSeconds);
+    const resetSeconds = windowStart + windowSeconds - nowSeconds;
+    // Starts a new window, or counts in the current one unless it is full
+    const { rows } = await sql.query(
+      `INSERT INTO rate_limits (key, bucket, window_seconds, window_start, count)
+       VALUES ($1, $2, $3, to_timestamp($4), 1)
+       ON CONFLICT (key, bucket, window_seconds) DO UPDATE SET
+         count = CASE WHEN rate_limits.window_start = EXCLUDED.window_start THEN rate_limits.count + 1 ELSE 1 END,
+         window_start = EXCLUDED.window_start
+       WHERE rate_limits.window_start <> EXCLUDED.window_start OR rate_limits.count < $5
+       RETURNING count`,
+      [key, bucket, windowSeconds, windowStart, limit]
+    );
+
+    if (!rows.length) {
+      return { allowed: false, limit, remaining: 0, resetSeconds, windowSeconds, policy };
+    }
+    const remaining = Math.max(0, limit - Number(rows[0].count));
+    if (!tightest || remaining < tightest.remaining) {
+      tightest = { allowed: true, limit, remaining, resetSeconds, windowSeconds, policy };
+    }
+  }
+
+  return tightest ?? { allowed: true, limit: 0, remaining: 0, resetSeconds: 0, windowSeconds: 0, policy };
+}
+
+// IETF RateLimit header fields, plus Retry-After when the request was refused
+export function rateLimitHeaders(result: RateLimitResult): Record<string, string> {
+  return {
+    "RateLimit-Limit": String(result.limit),
+    "RateLimit-Remaining": String(result.remaining),
+    "RateLimit-Reset": String(result.resetSeconds),
+    "RateLimit-Policy": result.policy,
+    ...(!result.allowed && { "Retry-After": String(result.resetSeconds) }),
+  };
+}
@@ -0,0 +1,238 @@
+// src/recurrence.ts
+// RRULE-style recurrence rules for repeating tasks and imported calendar events.
+// Supports the subset of RFC 5545 we need: FREQ=DAILY|WEEKLY|MONTHLY|YEARLY,
+// INTERVAL, BYDAY (plain weekdays), UNTIL and COUNT.
+
+export interface RecurrenceRule {
+  freq: "DAILY" | "WEEKLY" | "MONTHLY" | "YEARLY";
+  interval: number; // every N days, weeks, months or years
+  byDay: number[]; // weekdays, 0 = Sunday; for WEEKLY empty means the start date's weekday
+  until?: string; // last possible occurrence, YYYY-MM-DD inclusive
+  count?: number; // total number of occurrences
+}
+
+const FREQUENCIES = ["DAILY", "WEEKLY", "MONTHLY", "YEARLY"];
+// Rule parts we can't honor; ignoring them would invent occurrences
+const UNSUPPORTED_PARTS = ["BYSETPOS", "BYMONTHDAY", "BYMONTH", "BYYEARDAY", "BYWEEKNO", "BYHOUR", "BYMINUTE", "BYSECOND"];
+
+const WEEKDAY_CODES = ["SU", "MO", "TU", "WE", "TH", "FR", "SA"];
+const WEEKDAY_NAMES = ["sun", "mon", "tue", "wed", "thu", "fri", "sat"];
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Helper: YYYY-MM-DD to a UTC day number, so date maths ignores timezones
+function dayNumber(date: string): number {
+  return Math.floor(Date.parse(`${date}T00:00:00Z`) / DAY_MS);
+}
+
+// Helper: weekday of a day number, 0 = Sunday (day 0, 1970-01-01, was a Thursday)
+function weekdayOf(day: number): number {
+  return (day + 4) % 7;
+}
+
+// Helper: "20250131" or "20250131T235959Z" to "2025-01-31"
+function parseRRuleDate(value: string): string {
+  const match = /^(\d{4})(\d{2})(\d{2})/.exec(value);
+  if (!match) {
+    throw new Error(`Invalid UNTIL date: ${value}`);
+  }
+  return `${match[1]}-${match[2]}-${match[3]}`;
+}
+
+/**
+ * Parse an RRULE string such as "FREQ=WEEKLY;BYDAY=MO,WE,FR;UNTIL=20251231".
+ * A leading "RRULE:" is allowed. Throws with a readable message on anything unsupported.
+ */
+export function parseRRule(value: string): RecurrenceRule {
+  const parts = new Map<string, string>();
+  for (const part of value.trim().replace(/^RRULE:/i, "").split(";")) {
+    if (!part) continue;
+    const [key, val] = part.split("=");
+    if (!key || val === undefined) {
+      throw new Error(`Invalid recurrence rule part: ${part}`);
+    }
+    parts.set(key.toUpperCase(), val.toUpperCase());
+  }
+
+  const freq = parts.get("FREQ") as RecurrenceRule["freq"];
+  if (!FREQUENCIES.includes(freq)) {
+    throw new Error(`Recurrence FREQ must be one of: ${FREQUENCIES.join(", ")}`);
+  }
+  const unsupported = UNSUPPORTED_PARTS.filter((key) => parts.has(key));
+  if (unsupported.length) {
+    throw new Error(`Unsupported recurrence rule parts: ${unsupported.join(", ")}`);
+  }
+
+  const interval = parts.has("INTERVAL") ? Number(parts.get("INTERVAL")) : 1;
+  if (!Number.isInteger(interval) || interval < 1) {
+    throw new Error("Recurrence INTERVAL must be a positive whole number");
+  }
+
+  const byDay = (parts.get("BYDAY") || "")
+    .split(",")
+    .filter(Boolean)
+    .map((code) => {
+      const day = WEEKDAY_CODES.indexOf(code);
+      if (day === -1) {
+        // Ordinal forms such as 1MO or -1FR are not supported
+        throw new Error(`Invalid BYDAY value: ${code}`);
+      }
+      return day;
+    });
+
+  const rule: RecurrenceRule = { freq, interval, byDay: [...new Set(byDay)].sort() };
+  if (parts.has("UNTIL")) {
+    rule.until = parseRRuleDate(parts.get("UNTIL"));
+  }
+  if (parts.has("COUNT")) {
+    const count = Number(parts.get("COUNT"));
+    if (!Number.isInteger(count) || count < 1) {
+      throw new Error("Recurrence COUNT must be a positive whole number");
+    }
+    rule.count = count;
+  }
+  return rule;
+}
+
+// Helper: canonical RRULE string for storage
+export function formatRRule(rule: RecurrenceRule): string {
+  const parts = [`FREQ=${rule.freq}`];
+  if (rule.interval !== 1) {
+    parts.push(`INTERVAL=${rule.interval}`);
+  }
+  if (rule.byDay.length) {
+    parts.push(`BYDAY=${rule.byDay.map((d) => WEEKDAY_CODES[d]).join(",")}`);
+  }
+  if (rule.until) {
+    parts.push(`UNTIL=${rule.until.replace(/-/g, "")}`);
+  }
+  if (rule.count) {
+    parts.push(`COUNT=${rule.count}`);
+  }
+  return parts.join(";");
+}
+
+/**
+ * Build a rule from the API's friendly form, or an RRULE string:
+ *   { frequency: "daily" | "weekdays" | "weekly" | "every_n_days", days?: ["mon", ...], interval?: 2, until?: "YYYY-MM-DD" }
+ */
+export function recurrenceFromInput(input: unknown): RecurrenceRule {
+  if (typeof input === "string") {
+    return parseRRule(input);
+  }
+  if (!input || typeof input !== "object") {
+    throw new Error("Recurrence must be an RRULE string or an object with a frequency");
+  }
+
+  const { frequency, days, interval, until } = input as Record<string, any>;
+  let rule: RecurrenceRule;
+  switch (frequency) {
+    case "daily":
+      rule = { freq: "DAILY", interval: 1, byDay: [] };
+      break;
+    case "weekdays":
+      rule = { freq: "WEEKLY", interval: 1, byDay: [1, 2, 3, 4, 5] };
+      break;
+    case "weekly": {
+      if (!Array.isArray(days) || days.length === 0) {
+        throw new Error("Weekly recurrence needs a non-empty days list, e.g. [\"mon\", \"thu\"]");
+      }
+      const byDay = days.map((day) => {
+        const index = WEEKDAY_NAMES.indexOf(String(day).slice(0, 3).toLowerCase());
+        if (index === -1) {
+          throw new Error(`Invalid weekday: ${day}`);
+        }
+        return index;
+      });
+      rule = { freq: "WEEKLY", interval: 1, byDay: [...new Set(byDay)].sort() };
+      break;
+    }
+    case "every_n_days":
+      if (!Number.isInteger(interval) || interval < 1) {
+        throw new Error("every_n_days recurrence needs a positive whole interval");
+      }
+      rule = { freq: "DAILY", interval, byDay: [] };
+      break;
+    default:
+      throw new Error("Recurrence frequency must be one of: daily, weekdays, weekly, every_n_days");
+  }
+
+  if (until !== undefined && until !== null) {
+    if (typeof until !== "string" || !/^\d{4}-\d{2}-\d{2}$/.test(until) || isNaN(Date.parse(until))) {
+      throw new Error("Recurrence end date must be in YYYY-MM-DD format");
+    }
+    rule.until = until;
+  }
+  return rule;
+}
+
+// Does the series that starts on `startDate` have an occurrence on `date`? Both are YYYY-MM-DD.
+export function occursOn(rule: RecurrenceRule, startDate: string, date: string): boolean {
+  const start = dayNumber(startDate);
+  const day = dayNumber(date);
+  if (day < start || (rule.until && date > rule.until)) {
+    return false;
+  }
+  if (!matchesPattern(rule, start, day)) {
+    return false;
+  }
+  if (!rule.count) {
+    return true;
+  }
+
+  // With COUNT, this must be one of the first `count` occurrences
+  let seen = 0;
+  for (let d = start; d <= day; d++) {
+    if (matchesPattern(rule, start, d) && ++seen > rule.count) {
+      return false;
+    }
+  }
+  return true;
+}
+
+// Helper: does day number `day` fit the rule's frequency, interval and weekdays?
+function matchesPattern(rule: RecurrenceRule, start: number, day: number): boolean {
+  const weekday = weekdayOf(day);
+
+  if (rule.freq === "DAILY") {
+    return (day - start) % rule.interval === 0 && (!rule.byDay.length || rule.byDay.includes(weekday));
+  }
+
+  if (rule.freq === "WEEKLY") {
+    const weekdays = rule.byDay.length ? rule.byDay : [weekdayOf(start)];
+    if (!weekdays.includes(weekday)) {
+      return false;
+    }
+    // Weeks start on Monday (RFC 5545 default WKST=MO)
+    const weekStart = (n: number) => n - ((weekdayOf(n) + 6) % 7);
+    return ((weekStart(day) - weekStart(start)) / 7) % rule.interval === 0;
+  }
+
+  // MONTHLY and YEARLY repeat on the start date's day of the month (and month)
+  const from = new Date(start * DAY_MS);
+  const to = new Date(day * DAY_MS);
+  if (to.getUTCDate() !== from.getUTCDate()) {
+    return false;
+  }
+  if (rule.freq === "MONTHLY") {
+    const months = (to.getUTCFullYear() - from.getUTCFullYear()) * 12 + to.getUTCMonth() - from.getUTCMonth();
+    return months % rule.interval === 0;
+  }
+  return to.getUTCMonth() === from.getUTCMonth() && (to.getUTCFullYear() - from.getUTCFullYear()) % rule.interval === 0;
+}
+
+// Helper: short human description, e.g. "Every 2 weeks on Mon, Thu until 2025-12-31"
+export function describeRule(rule: RecurrenceRule): string {
+  const unit = { DAILY: "day", WEEKLY: "week", MONTHLY: "month", YEARLY: "year" }[rule.freq];
+  let text = rule.interval === 1 ? `Every ${unit}` : `Every ${rule.interval} ${unit}s`;
+  if (rule.byDay.length) {
+    const names = rule.byDay.map((d) => WEEKDAY_NAMES[d][0].toUpperCase() + WEEKDAY_NAMES[d].slice(1));
+    text = rule.interval === 1 && rule.byDay.join() === "1,2,3,4,5" ? "Every weekday" : `${text} on ${names.join(", ")}`;
+  }
+  if (rule.until) {
+    text += ` until ${rule.until}`;
+  }
+  if (rule.count) {
+    text += `, ${rule.count} times`;
+  }
+  return text;
+}
@@ -0,0 +1,247 @@
+// src/reminders.ts
+// What the cron trigger sends and where: a reminder shortly before each task
+// or event block of the active plan, and an evening digest of tomorrow's plan.
+// Users register delivery channels; each kind sends through one of:
+//   webhook   POST of the reminder as JSON to the user's https URL, signed
+//             with X-PlanMyDay-Signature when the channel has a secret
+//   webpush   Web Push to a browser subscription (src/webPush.ts), needs
+//             VAPID_PUBLIC_KEY, VAPID_PRIVATE_KEY and VAPID_SUBJECT
+//   email     POST of { to, subject, text } to EMAIL_RELAY_URL, with
+//             EMAIL_RELAY_TOKEN as bearer token
+// Set REMINDER_STUB_URL to send every delivery, whatever its channel, to that
+// URL instead; point it at a local server to see what would go out.
+import type { REMINDER_CHANNEL_KINDS } from "./enums";
+import type { StoredBlock } from "./planSchema";
+import { toMinutes } from "./time";
+import { sendWebPush, type PushSubscription } from "./webPush";
+
+export type ReminderChannelKind = (typeof REMINDER_CHANNEL_KINDS)[number];
+
+export interface Reminder {
+  type: "block" | "digest" | "test";
+  title: string;
+  body: string;
+  date: string; // the plan date it is about, YYYY-MM-DD
+  blockId?: string;
+  startsAt?: string; // block reminders: when the block starts, ISO 8601
+}
+
+// A channel's settings as stored in reminder_channels.config
+export type ChannelConfig =
+  | { url: string; secret?: string } // webhook
+  | PushSubscription // webpush
+  | { address: string }; // email
+
+export interface ReminderChannel {
+  kind: ReminderChannelKind;
+  // Resolves to false when the destination is gone for good and the channel should be removed
+  send(config: ChannelConfig, reminder: Reminder): Promise<boolean>;
+}
+
+// A reminder is sent up to this long after its block started if a cron run was late or missed
+const START_GRACE_MINUTES = 5;
+
+// The digest goes out this long before the user's sleep time, kept within the evening
+const DIGEST_BEFORE_SLEEP_MINUTES = 60;
+const EARLIEST_DIGEST = "18:00";
+const LATEST_DIGEST = "23:00";
+
+// Blocks listed in a digest, at most
+const MAX_DIGEST_LINES = 20;
+
+/**
+ * The sender for `kind`. Throws when the server isn't configured for it, so
+ * adding a channel can be refused up front.
+ */
+export function createChannel(env: Env, kind: ReminderChannelKind): ReminderChannel {
+  if (env.REMINDER_STUB_URL) {
+    return stubChannel(env.REMINDER_STUB_URL, kind);
+  }
+  switch (kind) {
+    case "webhook":
+      return webhookChannel();
+    case "webpush":
+      if (!env.VAPID_PUBLIC_KEY || !env.VAPID_PRIVATE_KEY || !env.VAPID_SUBJECT) {
+        throw new Error("Web Push is not configured on this server");
+      }
+      return webPushChannel({ publicKey: env.VAPID_PUBLIC_KEY, privateKey: env.VAPID_PRIVATE_KEY, subject: env.VAPID_SUBJECT });
+    case "email":
+      if (!env.EMAIL_RELAY_URL) {
+        throw new Error("Email reminders are not configured on this server");
+      }
+      return emailChannel(env.EMAIL_RELAY_URL, env.EMAIL_RELAY_TOKEN);
+    default:
+      throw new Error(`Unknown reminder channel "${kind}"`);
+  }
+}
+
+// Helper: treat 404 and 410 as a destination that no longer exists
+async function checkDelivery(res: Response, what: string): Promise<boolean> {
+  if (res.status === 404 || res.status === 410) {
+    return false;
+  }
+  if (!res.ok) {
+    throw new Error(`${what} error: ${res.status}`);
+  }
+  return true;
+}
+
+function webhookChannel(): ReminderChannel {
+  return {
+    kind: "webhook",
+    async send(config, reminder) {
+      const { url, secret } = config as { url: string; secret?: string };
+      const body = JSON.stringify(reminder);
+      const headers: Record<string, string> = { "Content-Type": "application/json" };
+      if (secret) {
+        headers["X-PlanMyDay-Signature"] = `sha256=${await hmacHex(secret, body)}`;
+      }
+      return checkDelivery(await fetch(url, { method: "POST", headers, body }), "Webhook");
+    },
+  };
+}
+
+function webPushChannel(vapid: { publicKey: string; privateKey: string; subject: string }): ReminderChannel {
+  return {
+    kind: "webpush",
+    send(config, reminder) {
+      return sendWebPush(config as PushSubscription, JSON.stringify(reminder), vapid);
+    },
+  };
+}
+
+function emailChannel(relayUrl: string, token?: string): ReminderChannel {
+  return {
+    kind: "email",
+    async send(config, reminder) {
+      const res = await fetch(relayUrl, {
+        method: "POST",
+        headers: { "Content-Type": "application/json", ...(token ? { Authorization: `Bearer ${token}` } : {}) },
+        body: JSON.stringify({ to: (config as { address: string }).address, subject: reminder.title, text: reminder.body }),
+      });
+      if (!res.ok) {
+        throw new Error(`Email relay error: ${res.status}`);
+      }
+      return true;
+    },
+  };
+}
+
+// Every channel kind posts { channel, to, reminder } to one URL; nothing reaches users
+function stubChannel(stubUrl: string, kind: ReminderChannelKind): ReminderChannel {
+  return {
+    kind,
+    async send(config, reminder) {
+      const res = await fetch(stubUrl, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ channel: kind, to: describeChannel(kind, config), reminder }),
+      });
+      return checkDelivery(res, "Reminder stub");
+    },
+  };
+}
+
+// Helper: hex HMAC-SHA256 of `body`
+async function hmacHex(secret: string, body: string): Promise<string> {
+  const encoder = new TextEncoder();
+  const key = await crypto.subtle.importKey("raw", encoder.encode(secret), { name: "HMAC", hash: "SHA-256" }, false, ["sign"]);
+  const signature = new Uint8Array(await crypto.subtle.sign("HMAC", key, encoder.encode(body)));
+  return Array.from(signature, (byte) => byte.toString(16).padStart(2, "0")).join("");
+}
+
+// Where a channel delivers, for showing to the user without its secrets
+export function describeChannel(kind: ReminderChannelKind, config: ChannelConfig): string {
+  if (kind === "email") {
+    return (config as { address: string }).address;
+  }
+  const url = kind === "webpush" ? (config as PushSubscription).endpoint : (config as { url: string }).url;
+  return new URL(url).host;
+}
+
+// Helper: whether `minutes` from midnight falls in quiet hours that may wrap past midnight
+export function inQuietHours(minutes: number, start: string | null, end: string | null): boolean {
+  if (!start || !end) {
+    return false;
+  }
+  const from = toMinutes(start, "00:00");
+  const to = toMinutes(end, "00:00");
+  if (from === to) {
+    return false;
+  }
+  return from < to ? minutes >= from && minutes < to : minutes >= from || minutes < to;
+}
+
+/**
+ * Reminders due at `now` for the blocks of a plan: task and event blocks not
+ * yet checked in whose start is at most `leadMinutes` away, or began less
+ * than a few minutes ago.
+ */
+export function dueBlockReminders(
+  date: string,
+  schedule: StoredBlock[],
+  now: Date,
+  leadMinutes: number
+): Reminder[] {
+  return schedule
+    .filter((block) => {
+      if ((block.type !== "task" && block.type !== "event") || block.status || !block.startsAt) {
+        return false;
+      }
+      const start = Date.parse(block.startsAt);
+      return now.getTime() >= start - leadMinutes * 60000 && now.getTime() < start + START_GRACE_MINUTES * 60000;
+    })
+    .map((block): Reminder => {
+      const minutesLeft = Math.round((Date.parse(block.startsAt) - now.getTime()) / 60000);
+      return {
+        type: "block",
+        title: `${block.activity} at ${block.time}`,
+        body: minutesLeft > 0 ? `Starts in ${minutesLeft} minute${minutesLeft === 1 ? "" : "s"}.` : "Starting now.",
+        date,
+        blockId: block.id,
+        startsAt: block.startsAt,
+      };
+    });
+}
+
+// Minutes from midnight at which the evening digest goes out
+export function digestMinutes(sleepTime: string | null): number {
+  const wanted = toMinutes(sleepTime, "22:00") - DIGEST_BEFORE_SLEEP_MINUTES;
+  return Math.min(Math.max(wanted, toMinutes(EARLIEST_DIGEST, "")), toMinutes(LATEST_DIGEST, ""));
+}
+
+/**
+ * The digest for `date`: the plan's blocks other than breaks, or without a
+ * plan the tasks waiting to be planned. Null when there is nothing to say.
+ */
+export function digestReminder(
+  date: string,
+  schedule: StoredBlock[] | null,
+  taskTitles: string[]
+): Reminder | null {
+  if (schedule) {
+    const blocks = schedule.filter((block) => block.type !== "break");
+    if (!blocks.length) {
+      return null;
+    }
+    const lines = blocks
+      .slice(0, MAX_DIGEST_LINES)
+      .map((block) => `${block.time} ${block.activity}`);
+    if (blocks.length > MAX_DIGEST_LINES) {
+      lines.push(`and ${blocks.length - MAX_DIGEST_LINES} more`);
+    }
+    return { type: "digest", title: "Tomorrow's plan", body: lines.join("\n"), date };
+  }
+
+  if (!taskTitles.length) {
+    return null;
+  }
+  const count = taskTitles.length === 1 ? "1 task is" : `${taskTitles.length} tasks are`;
+  const titles = taskTitles.slice(0, MAX_DIGEST_LINES).map((title) => `- ${title}`);
+  return {
+    type: "digest",
+    title: "Tomorrow has no plan yet",
+    body: [`${count} waiting for tomorrow:`, ...titles].join("\n"),
+    date,
+  };
+}
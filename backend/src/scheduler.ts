@@ -0,0 +1,435 @@
+// src/scheduler.ts
+// Deterministic, rule-based day planner. Used when the AI engine is unavailable
+// or returns something we can't use, and on request via `?engine=local`.
+import type { DayPlan, ScheduleBlock } from "./planSchema";
+import type { BusyBlock } from "./ics";
+import { breakStrategyFor, describeBreakStrategy, mealsFor } from "./breaks";
+import { formatTime, toMinutes } from "./time";
+
+const DEFAULT_WAKE = "09:00";
+const DEFAULT_SLEEP = "23:00";
+const DEFAULT_MAX_WORK_HOURS = 8;
+
+// Peak focus windows, in minutes from midnight
+const FOCUS_WINDOWS: Record<string, { start: number; end: number }> = {
+  morning: { start: 0, end: 12 * 60 },
+  afternoon: { start: 12 * 60, end: 17 * 60 },
+  evening: { start: 17 * 60, end: 24 * 60 },
+};
+
+const IMPORTANCE_RANK: Record<string, number> = { high: 3, medium: 2, low: 1 };
+
+interface Interval {
+  start: number;
+  end: number;
+}
+
+export interface LocalPlanOptions {
+  events?: BusyBlock[]; // calendar events on the plan date; tasks are scheduled around them
+  from?: string; // "HH:MM"; nothing new is scheduled before this time (mid-day re-planning)
+  keep?: ScheduleBlock[]; // blocks that already happened; copied as they are and counted as work
+  outdoorWindows?: Interval[]; // dry, comfortable stretches from the forecast; omit when unknown
+}
+
+// A task the planner could not fit, and why
+export interface SkippedTask {
+  taskId: string;
+  title: string;
+  reason: string;
+}
+
+interface PlannedTask {
+  id: string;
+  title: string;
+  duration: number;
+  rank: number;
+  fixedStart?: number;
+  deadline?: number;
+  dependsOn: string[];
+  outdoor: boolean;
+}
+
+function importanceRank(importance: string | null | undefined): number {
+  return IMPORTANCE_RANK[(importance || "").toLowerCase()] ?? IMPORTANCE_RANK.medium;
+}
+
+function overlaps(a: Interval, b: Interval) {
+  return a.start < b.end && b.start < a.end;
+}
+
+/**
+ * Build a plan from the user's `preferences` row and their `tasks` rows.
+ *
+ * Tasks with a `fixed_start` are pinned at that time. The rest are placed one
+ * at a time in dependency order: a task becomes ready once everything it
+ * `depends_on` has been placed, and it never starts before those end.
+ * Lower-importance work fills the time before the user's peak focus window
+ * and high-importance work starts at the beginning of it, unless that would
+ * make a task miss its effective deadline; then the earliest deadline goes
+ * first. A task that a pinned or deadline-bound task depends on inherits that
+ * limit.
+ *
+ * Imported calendar events are copied into the plan as "event" blocks and
+ * nothing else is scheduled over them. Work follows the user's break
+ * strategy (src/breaks.ts): a session holds tasks until the next one would
+ * make it longer than the strategy allows, then a break is taken. A task
+ * longer than a session is split into parts with breaks between them. Meals
+ * are placed at the user's meal times unless an appointment or event takes
+ * the slot, and
+ * tasks that would exceed `max_work_hours` or run past `sleep_time` are left
+ * out and listed in the summary.
+ *
+ * When `outdoorWindows` are given, outdoor tasks are placed first, each in
+ * the earliest window it fits; the rest of the day is packed around them. An
+ * outdoor task with no window that fits is left out.
+ */
+export function buildLocalPlan(prefs: any, tasks: any[], options: LocalPlanOptions = {}): DayPlan {
+  return planDay(prefs, tasks, options).plan;
+}
+
+/**
+ * Same as buildLocalPlan, but also returns the tasks that were left out. With
+ * `from`, only the rest of the day is planned: `keep` blocks stay where they
+ * are, events and meals that end by `from` are dropped and those still running
+ * keep only what is left of them, pinned tasks that end by `from` are reported
+ * as skipped, and floating tasks start at `from`. Without `from` the same
+ * applies at wake time.
+ */
+export function planDay(prefs: any, tasks: any[], options: LocalPlanOptions = {}): { plan: DayPlan; skipped: SkippedTask[] } {
+  const wake = toMinutes(prefs?.wake_time, DEFAULT_WAKE);
+  let sleep = toMinutes(prefs?.sleep_time, DEFAULT_SLEEP);
+  const wrapsMidnight = sleep <= wake;
+  if (wrapsMidnight) {
+    // Sleep time after midnight, e.g. wake 08:00, sleep 00:30
+    sleep += 24 * 60;
+  }
+  // Times earlier than wake belong to the small hours of the next day
+  const dayMinutes = (value: string) => {
+    const minutes = toMinutes(value, DEFAULT_WAKE);
+    return wrapsMidnight && minutes < wake ? minutes + 24 * 60 : minutes;
+  };
+
+  const strategy = breakStrategyFor(prefs);
+  const workBudget = (Number(prefs?.max_work_hours) || DEFAULT_MAX_WORK_HOURS) * 60;
+  const focus = FOCUS_WINDOWS[prefs?.peak_focus] || FOCUS_WINDOWS.morning;
+  const focusStart = Math.min(Math.max(focus.start, wake), sleep);
+  const planStart = options.from ? Math.max(wake, dayMinutes(options.from)) : wake;
+
+  const planned: PlannedTask[] = tasks.map((t, index) => ({
+    id: String(t.id ?? `task-${index}`),
+    title: t.title || "Untitled",
+    duration: Math.max(1, Math.round(Number(t.duration_minutes) || 30)),
+    rank: importanceRank(t.importance),
+    fixedStart: t.fixed_start ? dayMinutes(t.fixed_start) : undefined,
+    deadline: t.deadline ? dayMinutes(t.deadline) : undefined,
+    dependsOn: (t.depends_on || []).map(String),
+    outdoor: t.location === "outdoor",
+  }));
+  const byId = new Map(planned.map((t) => [t.id, t]));
+
+  // Dependencies on tasks outside this plan (done, or on another day) are already satisfied
+  for (const task of planned) {
+    task.dependsOn = task.dependsOn.filter((dep) => byId.has(dep));
+  }
+
+  // Latest time a task may end so that it meets its own deadline and leaves
+  // room for every task that depends on it
+  const latestEnd = new Map<string, number>();
+  const computeLatestEnd = (task: PlannedTask): number => {
+    if (latestEnd.has(task.id)) return latestEnd.get(task.id);
+    latestEnd.set(task.id, Infinity); // guards against cycles in bad data
+    let limit = task.deadline ?? Infinity;
+    for (const other of planned) {
+      if (other.dependsOn.includes(task.id)) {
+        const otherStart = other.fixedStart ?? computeLatestEnd(other) - other.duration;
+        limit = Math.min(limit, otherStart);
+      }
+    }
+    latestEnd.set(task.id, limit);
+    return limit;
+  };
+  planned.forEach(computeLatestEnd);
+
+  const fixed: Interval[] = [];
+  const entries: Array<{ start: number; block: ScheduleBlock }> = [];
+  const add = (start: number, activity: string, duration: number, type: ScheduleBlock["type"], taskId?: string) => {
+    const block: ScheduleBlock = { time: formatTime(start), activity, duration: String(duration), type };
+    if (taskId) block.taskId = taskId;
+    entries.push({ start, block });
+  };
+
+  let workUsed = 0;
+  const placedEnd = new Map<string, number>();
+  const skipped: SkippedTask[] = [];
+  const skip = (task: PlannedTask, reason: string) => skipped.push({ taskId: task.id, title: task.title, reason });
+
+  // What already happened is fixed, and its task time counts against the budget
+  for (const block of options.keep || []) {
+    const interval = { start: dayMinutes(block.time), end: dayMinutes(block.time) + Number(block.duration) };
+    fixed.push(interval);
+    entries.push({ start: interval.start, block });
+    if (block.type === "task") {
+      workUsed += Number(block.duration);
+    }
+  }
+
+  // Calendar events and appointments next: they stay where they are. One
+  // still running at the start of the plan keeps the part that is left.
+  for (const event of options.events || []) {
+    if (event.end <= planStart) continue;
+    const start = Math.max(event.start, planStart);
+    fixed.push({ start, end: event.end });
+    add(start, event.title, event.end - start, "event");
+  }
+
+  // A pinned task still running at the start of the plan stays at its fixed time
+  const pinned = planned.filter((t) => t.fixedStart !== undefined && t.fixedStart + t.duration > planStart);
+  for (const task of planned.filter((t) => t.fixedStart !== undefined && t.fixedStart + t.duration <= planStart)) {
+    skip(task, `fixed time ${formatTime(task.fixedStart)} has passed`);
+  }
+  for (const task of pinned) {
+    const interval = { start: task.fixedStart, end: task.fixedStart + task.duration };
+    fixed.push(interval);
+    add(interval.start, task.title, task.duration, "task", task.id);
+    placedEnd.set(task.id, interval.end);
+    workUsed += task.duration;
+  }
+
+  // Meals are placed when they fall inside the waking day, cut short when
+  // they have already begun
+  for (const meal of mealsFor(prefs)) {
+    const start = dayMinutes(meal.time);
+    const interval = { start: Math.max(start, planStart), end: start + meal.duration };
+    if (interval.start < interval.end && interval.end <= sleep && !fixed.some((f) => overlaps(f, interval))) {
+      fixed.push(interval);
+      add(interval.start, meal.name, interval.end - interval.start, "meal");
+    }
+  }
+
+  let cursor = planStart;
+  let sessionMinutes = 0; // work since the last break
+  let sessionsSinceLongBreak = 0;
+  let breaks = 0;
+  const failed = new Set<string>();
+
+  // Find the first start >= from where `duration` minutes fit without touching a fixed block
+  const nextFreeStart = (from: number, duration: number) => {
+    let start = from;
+    let moved = true;
+    while (moved) {
+      moved = false;
+      for (const interval of fixed) {
+        if (overlaps({ start, end: start + duration }, interval)) {
+          start = interval.end;
+          moved = true;
+        }
+      }
+    }
+    return start;
+  };
+
+  const earliestStart = (task: PlannedTask, from = cursor) =>
+    Math.max(from, ...task.dependsOn.map((dep) => placedEnd.get(dep) ?? from));
+
+  // Minutes a task takes including the breaks between its parts
+  const withBreaks = (task: PlannedTask) =>
+    task.duration + (Math.ceil(task.duration / strategy.workMinutes) - 1) * strategy.breakMinutes;
+
+  // Would `candidate` and the deadline-bound tasks still finish in time (EDF
+  // order, a break between each) if `candidate` went first, starting from `from`?
+  const meetsDeadlines = (candidate: PlannedTask, from: number, deadlineBound: PlannedTask[]) => {
+    let end = nextFreeStart(earliestStart(candidate, from), candidate.duration) + withBreaks(candidate);
+    if (end > latestEnd.get(candidate.id)) {
+      return false;
+    }
+    for (const task of deadlineBound) {
+      if (task === candidate) continue;
+      end = nextFreeStart(Math.max(end + strategy.breakMinutes, earliestStart(task, from)), task.duration) + withBreaks(task);
+      if (end > latestEnd.get(task.id)) {
+        return false;
+      }
+    }
+    return true;
+  };
+
+  // Lay out `task` in parts of at most a session, each preceded by a break
+  // when the session so far can't take it. Nothing is added unless every part
+  // fits before sleep time.
+  const place = (task: PlannedTask) => {
+    if (workUsed + task.duration > workBudget) {
+      skip(task, "exceeds max work hours");
+      return true;
+    }
+
+    let at = earliestStart(task);
+    let session = sessionMinutes;
+    let sessions = sessionsSinceLongBreak;
+    if (at - cursor >= strategy.breakMinutes) {
+      // Waiting on a dependency left enough idle time to count as a break
+      session = 0;
+    }
+
+    const parts = Math.ceil(task.duration / strategy.workMinutes);
+    const blocks: Array<{ start: number; activity: string; duration: number; type: ScheduleBlock["type"] }> = [];
+    let left = task.duration;
+    for (let part = 1; part <= parts; part++) {
+      const duration = Math.min(left, strategy.workMinutes);
+      if (session > 0 && session + duration > strategy.workMinutes) {
+        // A meal or appointment coming up anyway stands in for the break
+        const long = strategy.longBreakEvery !== null && sessions + 1 >= strategy.longBreakEvery;
+        const breakMinutes = long ? strategy.longBreakMinutes : strategy.breakMinutes;
+        if (nextFreeStart(at, breakMinutes) === at) {
+          blocks.push({ start: at, activity: long ? "Long break" : "Break", duration: breakMinutes, type: "break" });
+          at += breakMinutes;
+          sessions = long ? 0 : sessions + 1;
+        }
+        session = 0;
+      }
+
+      const start = nextFreeStart(at, duration);
+      if (start + duration > sleep) {
+        return false;
+      }
+      if (start !== at) {
+        // A meal or appointment resets the session
+        session = 0;
+      }
+      const activity = parts > 1 ? `${task.title} (part ${part} of ${parts})` : task.title;
+      blocks.push({ start, activity, duration, type: "task" });
+      at = start + duration;
+      session += duration;
+      left -= duration;
+    }
+
+    for (const block of blocks) {
+      add(block.start, block.activity, block.duration, block.type, block.type === "task" ? task.id : undefined);
+      if (block.type === "break") breaks++;
+    }
+    placedEnd.set(task.id, at);
+    cursor = at;
+    sessionMinutes = session;
+    sessionsSinceLongBreak = sessions;
+    workUsed += task.duration;
+    return true;
+  };
+
+  const windows = options.outdoorWindows ? [...options.outdoorWindows].sort((a, b) => a.start - b.start) : null;
+
+  // Outdoor tasks go in the first weather window they fit, even if that is
+  // later than the cursor; they become fixed and other work flows around them
+  const placeOutdoors = (task: PlannedTask) => {
+    if (workUsed + task.duration > workBudget) {
+      skip(task, "exceeds max work hours");
+      return true;
+    }
+    const from = earliestStart(task);
+    for (const window of windows) {
+      const start = nextFreeStart(Math.max(from, window.start), task.duration);
+      if (start + task.duration > window.end || start + task.duration > sleep) continue;
+
+      fixed.push({ start, end: start + task.duration });
+      add(start, task.title, task.duration, "task", task.id);
+      placedEnd.set(task.id, start + task.duration);
+      workUsed += task.duration;
+      if (start === cursor) {
+        cursor = start + task.duration;
+        sessionMinutes += task.duration;
+      }
+      return true;
+    }
+    return false;
+  };
+
+  let remaining = planned.filter((t) => t.fixedStart === undefined);
+  while (remaining.length) {
+    const ready = remaining.filter((t) => t.dependsOn.every((dep) => placedEnd.has(dep)));
+    if (!ready.length) {
+      // Everything left waits on a task that could not be scheduled
+      for (const task of remaining) {
+        const blocker = task.dependsOn.find((dep) => failed.has(dep) || !placedEnd.has(dep));
+        skip(task, `waits for "${byId.get(blocker)?.title}"`);
+      }
+      break;
+    }
+
+    // Usual pick: before the focus window, lower-importance tasks that finish
+    // before it starts; otherwise the most important task that can start now
+    let next: PlannedTask;
+    let jumpToFocus = false;
+    const outdoorReady = windows ? ready.filter((t) => t.outdoor).sort((a, b) => b.rank - a.rank) : [];
+    if (outdoorReady.length) {
+      next = outdoorReady[0];
+      remaining = remaining.filter((t) => t !== next);
+      if (!placeOutdoors(next)) {
+        failed.add(next.id);
+        skip(next, "no dry, comfortable weather window");
+      }
+      continue;
+    }
+    if (cursor < focusStart) {
+      next = ready
+        .filter((t) => t.rank !== IMPORTANCE_RANK.high && earliestStart(t) + t.duration <= focusStart)
+        .sort((a, b) => b.rank - a.rank)[0];
+      jumpToFocus = !next;
+    }
+    const from = jumpToFocus ? focusStart : cursor;
+    if (!next) {
+      next = [...ready].sort(
+        (a, b) => Number(earliestStart(a, from) > from) - Number(earliestStart(b, from) > from) || b.rank - a.rank
+      )[0];
+    }
+
+    // ...unless doing it first would make a deadline-bound task late, in
+    // which case the earliest deadline goes first
+    const deadlineBound = ready
+      .filter((t) => latestEnd.get(t.id) !== Infinity)
+      .sort((a, b) => latestEnd.get(a.id) - latestEnd.get(b.id));
+    if (deadlineBound.length && !meetsDeadlines(next, from, deadlineBound)) {
+      next = deadlineBound[0];
+      jumpToFocus = false;
+    }
+    if (jumpToFocus) {
+      cursor = focusStart;
+      sessionMinutes = 0;
+    }
+
+    remaining = remaining.filter((t) => t !== next);
+    if (!place(next)) {
+      failed.add(next.id);
+      skip(next, `does not fit before ${formatTime(sleep)}`);
+    }
+  }
+
+  const schedule = entries.sort((a, b) => a.start - b.start).map((e) => e.block);
+
+  const scheduledCount = tasks.length - skipped.length;
+  let summary = `Scheduled ${scheduledCount} of ${tasks.length} tasks (${workUsed} minutes of work) between ${formatTime(planStart)} and ${formatTime(sleep)}`;
+  summary += ` with ${breaks} break${breaks === 1 ? "" : "s"} (${describeBreakStrategy(strategy)}), putting high-importance work in your ${prefs?.peak_focus || "morning"} focus window.`;
+  if (pinned.length) {
+    summary += ` ${pinned.length} appointment${pinned.length === 1 ? " is" : "s are"} kept at ${pinned.length === 1 ? "its" : "their"} fixed time.`;
+  }
+  if (skipped.length) {
+    summary += ` Not scheduled: ${skipped.map((t) => `${t.title} (${t.reason})`).join(", ")}.`;
+  }
+
+  return { plan: { schedule, summary }, skipped };
+}
+
+/**
+ * Put the user's calendar events into a plan produced elsewhere (the AI),
+ * replacing any "event" blocks it made up, with blocks ordered from wake time.
+ */
+export function withCalendarEvents(plan: DayPlan, events: BusyBlock[], wakeTime: string): DayPlan {
+  const wake = toMinutes(wakeTime, DEFAULT_WAKE);
+  const sortKey = (block: ScheduleBlock) => (toMinutes(block.time, DEFAULT_WAKE) - wake + 24 * 60) % (24 * 60);
+  const schedule = [
+    ...plan.schedule.filter((block) => block.type !== "event"),
+    ...events.map((event): ScheduleBlock => ({
+      time: formatTime(event.start),
+      activity: event.title,
+      duration: String(event.end - event.start),
+      type: "event",
+    })),
+  ].sort((a, b) => sortKey(a) - sortKey(b));
+  return { ...plan, schedule };
+}
@@ -0,0 +1,595 @@
+// src/schemas.ts
+// Request and response schemas for the typed routes. chanfana validates
+// requests against them and builds /openapi.json from them, so they are the
+// API contract the web and mobile clients are generated from.
+import { extendZodWithOpenApi } from "chanfana";
+import { z } from "zod";
+import { BREAK_STYLES, COMMUTE_MODES, PEAK_FOCUS_TIMES, REMINDER_CHANNEL_KINDS, TASK_LOCATIONS, TASK_STATUSES } from "./enums";
+import { BLOCK_STATUSES, ScheduleBlockSchema } from "./planSchema";
+import { IMPORTANCE_LEVELS } from "./quickAdd";
+import { isValidDate, isValidTimeZone } from "./time";
+
+extendZodWithOpenApi(z);
+
+// Plan engines: "ai" calls the configured LLM provider (see src/llm.ts) and
+// falls back to "local" on failure, "local" runs the rule-based scheduler only.
+// "mistral" is the old name for "ai" and still accepted.
+export const PLAN_ENGINES = ["ai", "mistral", "local"] as const;
+
+// Durations a plan can use: what the user entered, or those corrected by their history
+export const PLAN_ESTIMATES = ["entered", "learned"] as const;
+
+// --- Building blocks -------------------------------------------
+const TimeSchema = z
+  .string()
+  .regex(/^([0-1]?[0-9]|2[0-3]):[0-5][0-9]$/, "must be in HH:MM format")
+  .openapi({ example: "09:30" });
+
+const DateSchema = z
+  .string()
+  .refine(isValidDate, "must be a date in YYYY-MM-DD format")
+  .openapi({ example: "2025-03-14" });
+
+// "true" or "false" in a query string
+const QueryFlagSchema = z.enum(["true", "false"]).default("false").transform((value) => value === "true");
+
+const TaskIdSchema = z.union([z.string().regex(/^\d+$/, "must be a task ID"), z.number().int().nonnegative()]);
+
+// Every error response; `issues` lists each problem when a request fails validation
+export const ErrorSchema = z
+  .object({
+    error: z.string(),
+    issues: z.array(z.string()).optional(),
+  })
+  .openapi("Error");
+
+const MessageSchema = z.object({
+  ok: z.literal(true),
+  message: z.string(),
+});
+
+export const CacheInfoSchema = z
+  .object({
+    hit: z.boolean().describe("Served from the cache without calling the upstream API"),
+    stale: z.boolean().describe("Older than its time to live, served because the upstream API failed"),
+    ageSeconds: z.number().int(),
+    fetchedAt: z.string().datetime(),
+  })
+  .openapi("CacheInfo");
+
+// --- Tasks -----------------------------------------------------
+const TaskFieldsSchema = z.object({
+  title: z.string().trim().min(1, "must be a non-empty string"),
+  duration: z.number().int("must be a whole number of minutes").positive("must be a positive number of minutes"),
+  importance: z.string().min(1, "must be a non-empty string").openapi({ example: "high" }),
+  status: z.enum(TASK_STATUSES).optional(),
+  date: DateSchema.nullable().optional().describe("Defaults to today; null puts the task in the backlog"),
+  fixedStart: TimeSchema.nullable().optional().describe("The task must start at this time"),
+  deadline: TimeSchema.nullable().optional().describe("The task must finish by this time"),
+  dependsOn: z.array(TaskIdSchema).nullable().optional().describe("IDs of tasks that must be done first"),
+  location: z.enum(TASK_LOCATIONS).nullable().optional(),
+});
+
+export const TaskInputSchema = TaskFieldsSchema.openapi("TaskInput");
+export const TaskPatchSchema = TaskFieldsSchema.partial().openapi("TaskPatch");
+
+export const TaskIdParamsSchema = z.object({
+  id: z.string().regex(/^\d+$/, "must be a numeric task ID"),
+});
+
+export const TaskListQuerySchema = z.object({
+  date: z
+    .string()
+    .default("today")
+    .refine((value) => ["today", "backlog", "all"].includes(value) || isValidDate(value), "must be today, backlog, all or in YYYY-MM-DD format")
+    .describe("today, backlog (no date), all, or a YYYY-MM-DD date"),
+  status: z
+    .string()
+    .optional()
+    .refine(
+      (value) => !value || value.split(",").every((s) => (TASK_STATUSES as readonly string[]).includes(s.trim())),
+      `must be one or more of: ${TASK_STATUSES.join(", ")}`
+    )
+    .describe("Comma-separated statuses"),
+});
+
+const DurationSuggestionSchema = z.object({
+  minutes: z.number().int(),
+  ratio: z.number().describe("How long this kind of task really takes, relative to the entered duration"),
+  basis: z.enum(["title", "importance", "overall", "none"]),
+  samples: z.number().int(),
+});
+
+export const TaskSchema = z
+  .object({
+    id: z.string(),
+    title: z.string(),
+    duration: z.number(),
+    importance: z.string(),
+    status: z.enum(TASK_STATUSES),
+    date: z.string().nullable(),
+    rolledOverFrom: z.string().nullable(),
+    recurringTaskId: z.string().nullable(),
+    occurrenceDate: z.string().nullable(),
+    fixedStart: z.string().nullable(),
+    deadline: z.string().nullable(),
+    dependsOn: z.array(z.string()),
+    location: z.enum(TASK_LOCATIONS).nullable(),
+    suggestedDuration: DurationSuggestionSchema.optional(),
+  })
+  .openapi("Task");
+
+export const TaskResultSchema = MessageSchema.extend({ task: TaskSchema });
+export const TaskListSchema = z.object({ tasks: z.array(TaskSchema) });
+export const OkSchema = MessageSchema;
+
+// --- Task import and export ------------------------------------
+const TASK_FILE_FORMATS = ["csv", "json"] as const;
+
+export const TaskImportQuerySchema = z.object({
+  dryRun: QueryFlagSchema.describe("Only check the rows, creating nothing"),
+  format: z.enum(TASK_FILE_FORMATS).optional().describe("Defaults to csv when the Content-Type says so, otherwise json"),
+});
+
+export const TaskImportResultSchema = z.object({
+  ok: z.literal(true),
+  dryRun: z.boolean(),
+  message: z.string(),
+  created: z.number().int(),
+  failed: z.number().int(),
+  ignoredColumns: z.array(z.string()).optional().describe("CSV columns that aren't task fields"),
+  results: z.array(
+    z.object({
+      row: z.number().int().describe("CSV data row or list position, counting from 1"),
+      ok: z.boolean(),
+      error: z.string().optional(),
+      task: TaskSchema.optional(),
+    })
+  ),
+});
+
+export const TaskExportQuerySchema = z.object({
+  from: DateSchema.optional().describe("Defaults to today"),
+  to: DateSchema.optional().describe("Last day, inclusive; defaults to `from`"),
+  backlog: QueryFlagSchema.describe("Also export the tasks without a date"),
+  format: z.enum(TASK_FILE_FORMATS).default("json"),
+});
+
+export const TaskExportSchema = z.object({
+  from: z.string(),
+  to: z.string(),
+  backlog: z.boolean(),
+  tasks: z.array(TaskSchema.extend({ completedAt: z.string().datetime().nullable() })),
+});
+
+// --- Recurring tasks -------------------------------------------
+const RECURRENCE_FREQUENCIES = ["daily", "weekdays", "weekly", "every_n_days"] as const;
+
+const RecurrenceSchema = z
+  .union([
+    z.string().min(1, "must be a non-empty RRULE").openapi({ example: "FREQ=WEEKLY;BYDAY=MO,TH" }),
+    z.object({
+      frequency: z.enum(RECURRENCE_FREQUENCIES),
+      days: z.array(z.string()).optional().describe("Weekdays for weekly, e.g. [\"mon\", \"thu\"]"),
+      interval: z.number().int("must be a whole number of days").positive("must be a positive number of days").optional()
+        .describe("Days between occurrences for every_n_days"),
+      until: DateSchema.nullable().optional().describe("Last possible occurrence"),
+    }),
+  ], { errorMap: () => ({ message: `must be an RRULE string or an object with a frequency of ${RECURRENCE_FREQUENCIES.join(", ")}` }) })
+  .describe("An RRULE string (FREQ=DAILY|WEEKLY|MONTHLY|YEARLY with INTERVAL, BYDAY, UNTIL, COUNT) or the friendly form");
+
+const RecurringTaskFieldsSchema = z.object({
+  title: TaskFieldsSchema.shape.title,
+  duration: TaskFieldsSchema.shape.duration,
+  importance: TaskFieldsSchema.shape.importance,
+  recurrence: RecurrenceSchema,
+  startDate: DateSchema.optional().describe("First possible occurrence; defaults to today"),
+});
+
+export const RecurringTaskInputSchema = RecurringTaskFieldsSchema.openapi("RecurringTaskInput");
+export const RecurringTaskPatchSchema = RecurringTaskFieldsSchema.partial().openapi("RecurringTaskPatch");
+
+export const RecurringTaskParamsSchema = z.object({
+  id: z.string().regex(/^\d+$/, "must be a numeric recurring task ID"),
+});
+
+export const RecurringTaskSchema = z
+  .object({
+    id: z.string(),
+    title: z.string(),
+    duration: z.number(),
+    importance: z.string(),
+    rrule: z.string(),
+    description: z.string().openapi({ example: "Every week on Mon, Thu" }),
+    startDate: z.string(),
+    until: z.string().nullable(),
+  })
+  .openapi("RecurringTask");
+
+export const RecurringTaskResultSchema = MessageSchema.extend({ recurringTask: RecurringTaskSchema });
+export const RecurringTaskListSchema = z.object({ recurringTasks: z.array(RecurringTaskSchema) });
+
+// --- Quick add -------------------------------------------------
+export const QuickAddRequestSchema = z
+  .object({
+    text: z.string().trim().min(1, "must be a non-empty string").max(500, "must be at most 500 characters")
+      .openapi({ example: "review Q3 deck 90m high priority tomorrow before 3pm" }),
+    create: z.boolean().default(false).describe("Also create the task from the parsed fields"),
+    ai: z.boolean().default(false).describe("Ask the configured LLM to resolve fields the parser was unsure of"),
+  })
+  .openapi("QuickAddRequest");
+
+const parsedField = <T extends z.ZodTypeAny>(value: T) =>
+  z.object({
+    value,
+    confidence: z.number().min(0).max(1),
+    source: z.enum(["text", "default", "ai"]).describe("Read from the text, assumed, or suggested by the model"),
+    match: z.string().optional().describe("The words the value was read from"),
+  });
+
+export const QuickAddResultSchema = z
+  .object({
+    text: z.string(),
+    fields: z.object({
+      title: parsedField(z.string()),
+      duration: parsedField(z.number().int()),
+      importance: parsedField(z.enum(IMPORTANCE_LEVELS)),
+      date: parsedField(z.string().nullable()),
+      deadline: parsedField(z.string().nullable()),
+      fixedStart: parsedField(z.string().nullable()),
+    }),
+    confidence: z.number().min(0).max(1).describe("The lowest field confidence"),
+    ambiguous: z.array(z.string()).describe("What the parser had to guess at"),
+    engine: z.string().describe("local, or the LLM provider that helped"),
+    fallbackReason: z.string().optional().describe("Why the LLM could not help"),
+    task: TaskSchema.optional().describe("The created task, with `create`"),
+  })
+  .openapi("QuickAddResult");
+
+// --- Preferences -----------------------------------------------
+const MealSchema = z.object({
+  name: z.string().trim().min(1, "must be a non-empty string").max(40, "must be at most 40 characters"),
+  time: TimeSchema,
+  duration: z.number().int("must be a whole number of minutes").min(5, "must be between 5 and 180").max(180, "must be between 5 and 180"),
+});
+
+export const PreferencesSchema = z
+  .object({
+    wakeTime: TimeSchema,
+    sleepTime: TimeSchema,
+    peakFocus: z.enum(PEAK_FOCUS_TIMES),
+    city: z.string().trim().min(1, "must be a non-empty string"),
+    breakStyle: z
+      .enum(BREAK_STYLES)
+      .describe("pomodoro: 25 minutes of work and 5 minute breaks, every 4th break 15 minutes; 52-17; ultradian: 90 and 20; custom: breakInterval and breakMinutes"),
+    breakInterval: z
+      .number()
+      .int("must be a whole number of minutes")
+      .positive("must be a positive number of minutes")
+      .optional()
+      .describe("Minutes of work between breaks; required for the custom style, set by the others"),
+    breakMinutes: z
+      .number()
+      .int("must be a whole number of minutes")
+      .min(1, "must be between 1 and 60")
+      .max(60, "must be between 1 and 60")
+      .optional()
+      .describe("Length of a break in the custom style; defaults to 15"),
+    meals: z
+      .array(MealSchema)
+      .max(5, "must have at most 5 meals")
+      .nullable()
+      .optional()
+      .describe("When meals are planned; null for lunch at 12:30 and dinner at 19:00, [] for none"),
+    maxWorkHours: z.number().positive("must be between 1 and 24").max(24, "must be between 1 and 24"),
+    commuteMode: z.enum(COMMUTE_MODES),
+    timezone: z
+      .string()
+      .refine(isValidTimeZone, "must be an IANA timezone name, e.g. America/New_York")
+      .optional()
+      .describe("Defaults to UTC; optional so older clients keep working"),
+    reminderLeadMinutes: z
+      .number()
+      .int("must be a whole number of minutes")
+      .min(0, "must be between 0 and 120")
+      .max(120, "must be between 0 and 120")
+      .optional()
+      .describe("How long before a block starts its reminder is sent; defaults to 10"),
+    quietHoursStart: TimeSchema.nullable().optional().describe("No reminders from this time; set together with quietHoursEnd, null for none"),
+    quietHoursEnd: TimeSchema.nullable().optional().describe("until this time, which may be past midnight"),
+  })
+  .openapi("Preferences");
+
+export const PreferencesResultSchema = z.object({
+  preferences: PreferencesSchema.nullable(),
+  message: z.string().optional(),
+});
+
+// --- Reminders -------------------------------------------------
+const HttpsUrlSchema = z
+  .string()
+  .url("must be a URL")
+  .refine((url) => url.startsWith("https://"), "must be an https:// URL");
+
+export const ReminderChannelInputSchema = z
+  .discriminatedUnion("kind", [
+    z.object({
+      kind: z.literal("webhook"),
+      url: HttpsUrlSchema,
+      secret: z
+        .string()
+        .min(16, "must be at least 16 characters")
+        .optional()
+        .describe("Signs each delivery: X-PlanMyDay-Signature is sha256= and the hex HMAC-SHA256 of the body"),
+    }),
+    z.object({
+      kind: z.literal("webpush"),
+      subscription: z
+        .object({
+          endpoint: HttpsUrlSchema,
+          keys: z.object({ p256dh: z.string().min(1), auth: z.string().min(1) }),
+        })
+        .describe("The browser's PushSubscription as JSON"),
+    }),
+    z.object({
+      kind: z.literal("email"),
+      address: z.string().email("must be an email address"),
+    }),
+  ])
+  .openapi("ReminderChannelInput");
+
+export const ReminderChannelSchema = z
+  .object({
+    id: z.string(),
+    kind: z.enum(REMINDER_CHANNEL_KINDS),
+    target: z.string().describe("Where it delivers: the email address, or the host of the URL"),
+    createdAt: z.string().datetime(),
+  })
+  .openapi("ReminderChannel");
+
+export const ReminderChannelListSchema = z.object({
+  channels: z.array(ReminderChannelSchema),
+  vapidPublicKey: z.string().nullable().describe("applicationServerKey for PushManager.subscribe(); null when Web Push isn't configured"),
+});
+
+export const ReminderChannelResultSchema = z.object({
+  ok: z.literal(true),
+  channel: ReminderChannelSchema,
+});
+
+export const ReminderChannelParamsSchema = z.object({
+  id: z.string().regex(/^\d+$/, "must be a numeric channel ID"),
+});
+
+export const ReminderTestResultSchema = z.object({
+  ok: z.boolean().describe("At least one channel took the reminder"),
+  results: z.array(
+    z.object({
+      channelId: z.string(),
+      kind: z.enum(REMINDER_CHANNEL_KINDS),
+      delivered: z.boolean(),
+      error: z.string().optional(),
+    })
+  ),
+});
+
+// --- Plans -----------------------------------------------------
+export const PlanOptionsQuerySchema = z.object({
+  engine: z.enum(PLAN_ENGINES).default("ai"),
+  estimates: z.enum(PLAN_ESTIMATES).default("entered").describe("Plan with entered durations or those learned from history"),
+});
+
+export const PlanDateQuerySchema = z.object({
+  date: DateSchema.optional().describe("Defaults to today"),
+});
+
+const StoredBlockSchema = ScheduleBlockSchema.extend({
+  id: z.string(),
+  startsAt: z.string().datetime(),
+  endsAt: z.string().datetime(),
+  status: z.enum(BLOCK_STATUSES).optional(),
+  startedAt: z.string().datetime().optional(),
+  finishedAt: z.string().datetime().optional(),
+});
+
+const ViolationSchema = z.object({
+  code: z.string(),
+  message: z.string(),
+  block: z.number().int().optional().describe("Index into plan.schedule"),
+});
+
+export const StoredPlanSchema = z
+  .object({
+    schedule: z.array(StoredBlockSchema),
+    summary: z.string(),
+    engine: z.string().optional(),
+    date: z.string().optional(),
+    timezone: z.string().optional(),
+    weatherNotes: z.array(z.string()).optional(),
+    commuteAlert: z.object({ mode: z.string(), rain: z.array(z.string()) }).nullable().optional(),
+    breakStrategy: z
+      .object({
+        style: z.enum(BREAK_STYLES),
+        label: z.string(),
+        workMinutes: z.number().int(),
+        breakMinutes: z.number().int(),
+        longBreakMinutes: z.number().int().nullable(),
+        longBreakEvery: z.number().int().nullable(),
+      })
+      .optional()
+      .describe("The break strategy the plan was made with"),
+  })
+  .openapi("Plan");
+
+export const PlanResultSchema = z.object({
+  plan: StoredPlanSchema.nullable(),
+  violations: z.array(ViolationSchema).optional(),
+  version: z.number().int().optional(),
+  message: z.string().optional(),
+});
+
+export const ReplanRequestSchema = z
+  .object({
+    now: TimeSchema.optional().describe("Defaults to the user's current local time"),
+    completed: z
+      .array(z.union([z.string().min(1, "must be a block ID"), z.number().int().nonnegative()]))
+      .default([])
+      .describe("Finished blocks, by ID (or index, for older clients); blocks checked in as finished count anyway"),
+  })
+  .openapi("ReplanRequest");
+
+export const ReplanResultSchema = z.object({
+  plan: StoredPlanSchema,
+  violations: z.array(ViolationSchema),
+  version: z.number().int(),
+  now: z.string(),
+  completedTasks: z.array(z.string()).describe("IDs of tasks marked done"),
+  unscheduled: z.array(z.object({ taskId: z.string(), title: z.string(), reason: z.string() })).describe("Tasks that no longer fit today"),
+});
+
+export const BlockParamsSchema = z.object({
+  id: z.string().min(1).describe("The block's ID from plan.schedule"),
+});
+
+export const BlockCheckInSchema = z
+  .object({
+    status: z.enum(BLOCK_STATUSES),
+    at: z
+      .string()
+      .refine((value) => !isNaN(Date.parse(value)), "must be an ISO 8601 timestamp")
+      .optional()
+      .describe("When it happened; defaults to now"),
+  })
+  .openapi("BlockCheckIn");
+
+export const BlockCheckInResultSchema = z.object({
+  ok: z.literal(true),
+  date: z.string(),
+  block: StoredBlockSchema,
+});
+
+export const PlanVersionParamsSchema = z.object({
+  version: z.string().regex(/^\d+$/, "must be a plan version number"),
+});
+
+export const PlanVersionListSchema = z.object({
+  date: z.string(),
+  versions: z.array(
+    z.object({
+      version: z.number().int(),
+      engine: z.string().nullable(),
+      createdAt: z.string(),
+      violationCount: z.number().int(),
+      active: z.boolean(),
+    })
+  ),
+});
+
+export const PlanVersionSchema = z
+  .object({
+    version: z.number().int(),
+    date: z.string(),
+    active: z.boolean(),
+    createdAt: z.string(),
+    plan: StoredPlanSchema,
+    violations: z.array(ViolationSchema),
+    inputs: z
+      .object({ engine: z.string().nullable(), prompt: z.string().nullable(), weather: z.any() })
+      .describe("What the plan was generated from"),
+  })
+  .openapi("PlanVersion");
+
+export const ActivatedPlanSchema = MessageSchema.extend({
+  plan: StoredPlanSchema,
+  violations: z.array(ViolationSchema),
+  version: z.number().int(),
+});
+
+const PlanVersionNumberSchema = z.string().regex(/^\d+$/, "must be a plan version number");
+
+export const PlanDiffQuerySchema = z.object({
+  date: DateSchema.optional().describe("Defaults to today"),
+  from: PlanVersionNumberSchema.optional().describe("Defaults to the version before `to`"),
+  to: PlanVersionNumberSchema.optional().describe("Defaults to the active version"),
+});
+
+const DiffBlockSchema = z.object({
+  activity: z.string(),
+  type: z.string(),
+  taskId: z.string().optional(),
+});
+const BlockSlotSchema = z.object({ time: z.string(), duration: z.string() });
+
+export const PlanDiffResultSchema = z.object({
+  date: z.string(),
+  from: z.number().int(),
+  to: z.number().int(),
+  diff: z.object({
+    added: z.array(DiffBlockSchema.merge(BlockSlotSchema)),
+    removed: z.array(DiffBlockSchema.merge(BlockSlotSchema)),
+    moved: z.array(DiffBlockSchema.extend({ from: BlockSlotSchema, to: BlockSlotSchema })),
+    unchanged: z.number().int(),
+  }),
+});
+
+export const PlanCalendarQuerySchema = z.object({
+  date: DateSchema.optional().describe("One day; defaults to today"),
+  from: DateSchema.optional().describe("First day of a range, with `to`"),
+  to: DateSchema.optional().describe("Last day of a range, inclusive"),
+  token: z.string().optional().describe("Calendar feed token from POST /api/calendar/token, for clients that can't send a bearer token"),
+});
+
+export const GeneratedPlanSchema = z.object({
+  plan: StoredPlanSchema,
+  engine: z.string(),
+  violations: z.array(ViolationSchema),
+  attempts: z.number().int().describe("Answers requested from the model"),
+  version: z.number().int().nullable(),
+  fallbackReason: z.string().optional().describe("Why the local planner was used instead of the AI"),
+  weather: z.record(z.any()).describe("OpenWeather's current conditions"),
+  apod: z.record(z.any()).nullable(),
+  estimates: z.enum(PLAN_ESTIMATES),
+  cache: z.object({
+    weather: CacheInfoSchema.nullable(),
+    forecast: CacheInfoSchema.nullable(),
+    apod: CacheInfoSchema.nullable(),
+  }),
+});
+
+// --- Weather and APOD ------------------------------------------
+export const WeatherSchema = z
+  .object({
+    temperature: z.string().openapi({ example: "18°C" }),
+    condition: z.string(),
+    location: z.string(),
+    icon: z.string(),
+    humidity: z.number(),
+    windSpeed: z.number(),
+    cache: CacheInfoSchema,
+  })
+  .openapi("Weather");
+
+export const ApodSchema = z
+  .object({
+    title: z.string(),
+    description: z.string(),
+    imageUrl: z.string(),
+    date: z.string(),
+    mediaType: z.string(),
+    cache: CacheInfoSchema,
+  })
+  .openapi("Apod");
+
+export type TaskInput = z.output<typeof TaskPatchSchema>;
+export type TaskListQuery = z.output<typeof TaskListQuerySchema>;
+export type TaskImportQuery = z.output<typeof TaskImportQuerySchema>;
+export type TaskExportQuery = z.output<typeof TaskExportQuerySchema>;
+export type QuickAddInput = z.output<typeof QuickAddRequestSchema>;
+export type PreferencesInput = z.output<typeof PreferencesSchema>;
+export type ReminderChannelInput = z.output<typeof ReminderChannelInputSchema>;
+export type PlanOptions = z.output<typeof PlanOptionsQuerySchema>;
+export type ReplanInput = z.output<typeof ReplanRequestSchema>;
+export type BlockCheckInInput = z.output<typeof BlockCheckInSchema>;
+export type PlanDiffQuery = z.output<typeof PlanDiffQuerySchema>;
+export type PlanCalendarQuery = z.output<typeof PlanCalendarQuerySchema>;
+export type RecurringTaskInput = z.output<typeof RecurringTaskPatchSchema>;
@@ -0,0 +1,99 @@
+// src/stats.ts
+// Productivity figures computed from stored plans, block check-ins and tasks
+import type { StoredBlock } from "./planSchema";
+
+const IMPORTANCE_LEVELS = ["high", "medium", "low"];
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface StatsInput {
+  from: string; // YYYY-MM-DD, inclusive
+  to: string;
+  today: string; // in the user's timezone; the current streak counts back from here
+  plans: Array<{ plan_date: string; plan_json: { schedule: StoredBlock[] } }>;
+  tasks: Array<{ id: number | string; importance: string; status: string; task_date: string | null }>;
+  completionDays: string[]; // local dates on which at least one task was completed
+}
+
+export interface ProductivityStats {
+  from: string;
+  to: string;
+  completion: { total: number; done: number; skipped: number; open: number; rate: number };
+  minutesByImportance: Record<string, { planned: number; actual: number }>;
+  focusByDay: Array<{ date: string; plannedMinutes: number; actualMinutes: number }>;
+  streaks: { current: number; longest: number };
+}
+
+// Helper: shift a YYYY-MM-DD date by `days`
+function addDays(date: string, days: number): string {
+  return new Date(Date.parse(`${date}T00:00:00Z`) + days * DAY_MS).toISOString().slice(0, 10);
+}
+
+// Minutes actually spent on a finished block; the planned duration
+// when the user only marked it finished
+export function actualMinutes(block: StoredBlock): number {
+  const started = Date.parse(block.startedAt || block.startsAt);
+  const finished = Date.parse(block.finishedAt);
+  if (isNaN(started) || isNaN(finished) || finished < started) {
+    return Number(block.duration);
+  }
+  return Math.round((finished - started) / 60000);
+}
+
+/**
+ * Completion rate of the tasks dated in the range, planned vs. actual task
+ * minutes by importance and per day (only finished blocks have actual
+ * minutes), and streaks of days with at least one completed task. The current
+ * streak doesn't break just because nothing is finished yet today.
+ */
+export function computeStats(input: StatsInput): ProductivityStats {
+  const { from, to, today, plans, tasks, completionDays } = input;
+
+  const inRange = tasks.filter((t) => t.task_date && t.task_date >= from && t.task_date <= to);
+  const done = inRange.filter((t) => t.status === "done").length;
+  const skipped = inRange.filter((t) => t.status === "skipped").length;
+  const completion = {
+    total: inRange.length,
+    done,
+    skipped,
+    open: inRange.length - done - skipped,
+    rate: inRange.length ? Math.round((done / inRange.length) * 1000) / 1000 : 0,
+  };
+
+  const importanceOf = new Map(tasks.map((t) => [String(t.id), (t.importance || "medium").toLowerCase()]));
+  const minutesByImportance: ProductivityStats["minutesByImportance"] = {};
+  for (const level of IMPORTANCE_LEVELS) {
+    minutesByImportance[level] = { planned: 0, actual: 0 };
+  }
+
+  const byDate = new Map(plans.map((row) => [row.plan_date, row.plan_json?.schedule || []]));
+  const focusByDay: ProductivityStats["focusByDay"] = [];
+  for (let date = from; date <= to; date = addDays(date, 1)) {
+    let plannedMinutes = 0;
+    let actual = 0;
+    for (const block of byDate.get(date) || []) {
+      if (block.type !== "task") continue;
+      const level = importanceOf.get(String(block.taskId)) || "medium";
+      const totals = (minutesByImportance[level] ||= { planned: 0, actual: 0 });
+      const blockActual = block.status === "finished" ? actualMinutes(block) : 0;
+      totals.planned += Number(block.duration);
+      totals.actual += blockActual;
+      plannedMinutes += Number(block.duration);
+      actual += blockActual;
+    }
+    focusByDay.push({ date, plannedMinutes, actualMinutes: actual });
+  }
+
+  const days = new Set(completionDays);
+  let longest = 0;
+  let run = 0;
+  for (let date = from; date <= to; date = addDays(date, 1)) {
+    run = days.has(date) ? run + 1 : 0;
+    longest = Math.max(longest, run);
+  }
+  let current = 0;
+  for (let date = days.has(today) ? today : addDays(today, -1); days.has(date); date = addDays(date, -1)) {
+    current++;
+  }
+
+  return { from, to, completion, minutesByImportance, focusByDay, streaks: { current, longest } };
+}
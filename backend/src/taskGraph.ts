@@ -0,0 +1,36 @@
+// src/taskGraph.ts
+// Task dependency graph helpers. Edges point from a task to the tasks it depends on.
+
+export type DependencyGraph = Map<string, string[]>;
+
+/**
+ * Return one dependency cycle as a list of task IDs (first ID repeated at the
+ * end, e.g. ["3", "7", "3"]), or null when the graph is acyclic.
+ */
+export function findCycle(graph: DependencyGraph): string[] | null {
+  const state = new Map<string, "visiting" | "done">();
+  const path: string[] = [];
+
+  const visit = (id: string): string[] | null => {
+    if (state.get(id) === "done") return null;
+    if (state.get(id) === "visiting") {
+      return [...path.slice(path.indexOf(id)), id];
+    }
+
+    state.set(id, "visiting");
+    path.push(id);
+    for (const dep of graph.get(id) || []) {
+      const cycle = visit(dep);
+      if (cycle) return cycle;
+    }
+    path.pop();
+    state.set(id, "done");
+    return null;
+  };
+
+  for (const id of graph.keys()) {
+    const cycle = visit(id);
+    if (cycle) return cycle;
+  }
+  return null;
+}
@@ -0,0 +1,129 @@
+// src/time.ts
+// Wall-clock time helpers shared by the planners and validators
+
+// Helper: "HH:MM" or "HH:MM:SS" (Postgres TIME) to minutes from midnight
+export function toMinutes(value: string | null | undefined, fallback: string): number {
+  const match = /^(\d{1,2}):(\d{2})/.exec(value || "") || /^(\d{1,2}):(\d{2})/.exec(fallback);
+  return Number(match[1]) * 60 + Number(match[2]);
+}
+
+// Helper: minutes from midnight to "HH:MM"
+export function formatTime(minutes: number): string {
+  const h = Math.floor(minutes / 60) % 24;
+  const m = minutes % 60;
+  return `${String(h).padStart(2, "0")}:${String(m).padStart(2, "0")}`;
+}
+
+// Helper: true for a real calendar date in YYYY-MM-DD format
+export function isValidDate(value: string) {
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(value)) {
+    return false;
+  }
+  const date = new Date(`${value}T00:00:00Z`);
+  return !isNaN(date.getTime()) && date.toISOString().startsWith(value);
+}
+
+// --- Timezones -------------------------------------------------
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+// Helper: cached formatter that splits an instant into wall-clock parts in `timeZone`
+function partsFormatter(timeZone: string) {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat("en-US", {
+      timeZone,
+      hourCycle: "h23",
+      year: "numeric",
+      month: "2-digit",
+      day: "2-digit",
+      hour: "2-digit",
+      minute: "2-digit",
+      second: "2-digit",
+    });
+    formatters.set(timeZone, formatter);
+  }
+  return formatter;
+}
+
+// True for IANA names the runtime knows, e.g. "Asia/Kolkata" or "America/New_York"
+export function isValidTimeZone(timeZone: unknown): timeZone is string {
+  if (typeof timeZone !== "string" || !timeZone) {
+    return false;
+  }
+  try {
+    partsFormatter(timeZone);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/** Wall-clock date (YYYY-MM-DD) and minutes from midnight of `instant` in `timeZone`. */
+export function zonedParts(instant: Date, timeZone: string): { date: string; minutes: number } {
+  const parts: Record<string, string> = {};
+  for (const part of partsFormatter(timeZone).formatToParts(instant)) {
+    parts[part.type] = part.value;
+  }
+  return {
+    date: `${parts.year}-${parts.month}-${parts.day}`,
+    minutes: Number(parts.hour) * 60 + Number(parts.minute),
+  };
+}
+
+// Today's date for someone in `timeZone`
+export function localDate(timeZone: string, now = new Date()): string {
+  return zonedParts(now, timeZone).date;
+}
+
+// Helper: how far `timeZone` is ahead of UTC at `instantMs`, in milliseconds
+function offsetAt(instantMs: number, timeZone: string) {
+  const { date, minutes } = zonedParts(new Date(instantMs), timeZone);
+  const wallMs = Date.parse(`${date}T00:00:00Z`) + minutes * 60000;
+  return wallMs - Math.floor(instantMs / 60000) * 60000;
+}
+
+/**
+ * The instant at which clocks in `timeZone` show `minutes` past midnight on
+ * `date`. On DST transition days a time skipped by the spring-forward gap
+ * moves forward by the size of the gap (02:30 becomes 03:30), and a time that
+ * happens twice in the fall-back overlap resolves to the first occurrence.
+ */
+export function zonedTimeToUtc(date: string, minutes: number, timeZone: string): Date {
+  const wallMs = Date.parse(`${date}T00:00:00Z`) + minutes * 60000;
+  const first = wallMs - offsetAt(wallMs, timeZone);
+  const second = wallMs - offsetAt(first, timeZone);
+  if (first === second) {
+    return new Date(first);
+  }
+
+  const earlier = Math.min(first, second);
+  const later = Math.max(first, second);
+  for (const candidate of [earlier, later]) {
+    if (candidate + offsetAt(candidate, timeZone) === wallMs) {
+      return new Date(candidate);
+    }
+  }
+  // Neither guess shows the requested time: it falls in a gap
+  return new Date(later);
+}
+
+/**
+ * Instants for a day's schedule of "HH:MM" times in `timeZone`. The times are
+ * in schedule order, so one earlier than the block before it belongs to the
+ * small hours of the next day.
+ */
+export function scheduleInstants(date: string, times: string[], timeZone: string): Date[] {
+  let day = date;
+  let previous = -1;
+  return times.map((time) => {
+    const minutes = toMinutes(time, "00:00");
+    if (minutes < previous) {
+      const next = new Date(`${day}T00:00:00Z`);
+      next.setUTCDate(next.getUTCDate() + 1);
+      day = next.toISOString().slice(0, 10);
+    }
+    previous = minutes;
+    return zonedTimeToUtc(day, minutes, timeZone);
+  });
+}
@@ -0,0 +1,225 @@
+// src/weather.ts
+// Hourly forecasts for the plan date behind a replaceable provider, and what
+// they mean for outdoor tasks and walk/bike commutes. Chosen through env vars:
+//   WEATHER_PROVIDER  openweather (default) or fixture
+//   WEATHER_FIXTURE   JSON array of hourly entries for the fixture provider;
+//                     without it the fixture has a dry morning and a rainy late afternoon
+import type { DayPlan } from "./planSchema";
+import { formatTime, toMinutes, zonedParts } from "./time";
+
+export interface HourlyForecast {
+  hour: number; // 0-23, local to the plan's timezone
+  temp: number; // °C
+  precipProbability: number; // 0-1
+  description: string;
+}
+
+export interface WeatherProvider {
+  name: string;
+  forecast(city: string, date: string, timeZone: string): Promise<HourlyForecast[]>;
+}
+
+// Interval in minutes from midnight
+export interface WeatherWindow {
+  start: number;
+  end: number;
+}
+
+export const WEATHER_PROVIDERS = ["openweather", "fixture"];
+
+// What counts as good weather for an outdoor task
+const MAX_DRY_PRECIP = 0.3;
+const MIN_COMFORT_TEMP = 10;
+const MAX_COMFORT_TEMP = 28;
+// Rain likely enough to warn someone who walks or bikes
+const RAIN_ALERT_PRECIP = 0.5;
+
+export function createWeatherProvider(env: Env): WeatherProvider {
+  const name = (env.WEATHER_PROVIDER || "openweather").toLowerCase();
+  switch (name) {
+    case "openweather":
+      if (!env.OPENWEATHER_KEY) {
+        throw new Error("OpenWeather API key is not configured");
+      }
+      return openWeather(env.OPENWEATHER_KEY);
+    case "fixture":
+      return fixtureWeather(env.WEATHER_FIXTURE ? parseFixture(env.WEATHER_FIXTURE) : DEFAULT_FIXTURE);
+    default:
+      throw new Error(`Unknown WEATHER_PROVIDER "${name}". Must be one of: ${WEATHER_PROVIDERS.join(", ")}`);
+  }
+}
+
+// OpenWeather's 5 day / 3 hour forecast; each 3-hour step covers the hours it spans
+function openWeather(apiKey: string): WeatherProvider {
+  return {
+    name: "openweather",
+    async forecast(city, date, timeZone) {
+      const res = await fetch(
+        `https://api.openweathermap.org/data/2.5/forecast?q=${encodeURIComponent(city)}&units=metric&appid=${apiKey}`
+      );
+      if (!res.ok) {
+        throw new Error(`Forecast API error: ${res.status}`);
+      }
+
+      const data = await res.json() as {
+        list: Array<{ dt: number; main: { temp: number }; pop?: number; weather: Array<{ description: string }> }>;
+      };
+      const hours = new Map<number, HourlyForecast>();
+      for (const step of data.list || []) {
+        for (let offset = 0; offset < 3; offset++) {
+          const local = zonedParts(new Date((step.dt + offset * 3600) * 1000), timeZone);
+          const hour = Math.floor(local.minutes / 60);
+          if (local.date !== date || hours.has(hour)) continue;
+          hours.set(hour, {
+            hour,
+            temp: step.main.temp,
+            precipProbability: step.pop ?? 0,
+            description: step.weather?.[0]?.description || "unknown",
+          });
+        }
+      }
+      return [...hours.values()].sort((a, b) => a.hour - b.hour);
+    },
+  };
+}
+
+// Canned forecast for local development and tests; the same for every city and date
+function fixtureWeather(hours: HourlyForecast[]): WeatherProvider {
+  return {
+    name: "fixture",
+    async forecast() {
+      return hours;
+    },
+  };
+}
+
+const DEFAULT_FIXTURE: HourlyForecast[] = Array.from({ length: 24 }, (_, hour) => {
+  const rainy = hour >= 15 && hour < 18;
+  return {
+    hour,
+    temp: 8 + Math.round(10 * Math.sin((Math.PI * Math.max(0, hour - 5)) / 18)),
+    precipProbability: rainy ? 0.8 : 0.1,
+    description: rainy ? "moderate rain" : "few clouds",
+  };
+});
+
+// Helper: WEATHER_FIXTURE is a JSON array of HourlyForecast entries
+function parseFixture(value: string): HourlyForecast[] {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(value);
+  } catch {
+    throw new Error("WEATHER_FIXTURE must be a JSON array");
+  }
+  if (!Array.isArray(parsed)) {
+    throw new Error("WEATHER_FIXTURE must be a JSON array");
+  }
+  return parsed.map((entry: any) => ({
+    hour: Number(entry.hour),
+    temp: Number(entry.temp),
+    precipProbability: Number(entry.precipProbability) || 0,
+    description: String(entry.description || "unknown"),
+  }));
+}
+
+// Helper: merge consecutive matching hours into windows
+function hourRuns(forecast: HourlyForecast[], matches: (hour: HourlyForecast) => boolean): WeatherWindow[] {
+  const windows: WeatherWindow[] = [];
+  for (const hour of [...forecast].sort((a, b) => a.hour - b.hour)) {
+    if (!matches(hour)) continue;
+    const last = windows[windows.length - 1];
+    if (last && last.end === hour.hour * 60) {
+      last.end += 60;
+    } else {
+      windows.push({ start: hour.hour * 60, end: hour.hour * 60 + 60 });
+    }
+  }
+  return windows;
+}
+
+// Dry, comfortable stretches of the day, where outdoor tasks belong
+export function outdoorWindows(forecast: HourlyForecast[]): WeatherWindow[] {
+  return hourRuns(
+    forecast,
+    (h) => h.precipProbability < MAX_DRY_PRECIP && h.temp >= MIN_COMFORT_TEMP && h.temp <= MAX_COMFORT_TEMP
+  );
+}
+
+// Stretches where rain is likely
+export function rainWindows(forecast: HourlyForecast[]): WeatherWindow[] {
+  return hourRuns(forecast, (h) => h.precipProbability >= RAIN_ALERT_PRECIP);
+}
+
+// Commute modes that get wet in the rain
+export function isExposedCommute(mode: string | null | undefined): boolean {
+  return mode === "walk" || mode === "bike";
+}
+
+// Helper: "15:00-18:00, 20:00-21:00"
+function formatWindows(windows: WeatherWindow[]) {
+  return windows.map((w) => `${formatTime(w.start)}-${formatTime(w.end)}`).join(", ");
+}
+
+export interface CommuteAlert {
+  mode: string;
+  rain: string[]; // "HH:MM-HH:MM" stretches where rain is likely
+}
+
+/**
+ * Explain how the forecast shaped `plan`: where each outdoor task landed and
+ * why, when rain is expected, and a commute alert for walkers and cyclists
+ * when it is. `forecast` is null when no forecast was available.
+ */
+export function describeWeatherChoices(
+  plan: DayPlan,
+  tasks: any[],
+  forecast: HourlyForecast[] | null,
+  commuteMode: string | null | undefined
+): { weatherNotes: string[]; commuteAlert: CommuteAlert | null } {
+  const notes: string[] = [];
+  const outdoor = tasks.filter((t) => t.location === "outdoor");
+
+  if (!forecast || !forecast.length) {
+    if (outdoor.length) {
+      notes.push("No forecast was available, so outdoor tasks were planned without regard to the weather.");
+    }
+    return { weatherNotes: notes, commuteAlert: null };
+  }
+
+  const windows = outdoorWindows(forecast);
+  const rain = rainWindows(forecast);
+  const hourAt = (minutes: number) => forecast.find((h) => h.hour === Math.floor(minutes / 60) % 24);
+
+  for (const task of outdoor) {
+    const block = plan.schedule.find((b) => b.type === "task" && b.taskId === String(task.id));
+    if (!block) {
+      notes.push(
+        windows.length
+          ? `Outdoor task "${task.title}" did not fit in the dry, comfortable hours (${formatWindows(windows)}).`
+          : `Outdoor task "${task.title}" was left out: no dry, comfortable hours are forecast.`
+      );
+      continue;
+    }
+    const start = toMinutes(block.time, "00:00");
+    const end = start + Number(block.duration);
+    const hour = hourAt(start);
+    const detail = hour ? `${hour.description}, ${Math.round(hour.temp)}°C, ${Math.round(hour.precipProbability * 100)}% chance of rain` : "no forecast for that hour";
+    notes.push(
+      windows.some((w) => w.start <= start && end <= w.end)
+        ? `Outdoor task "${task.title}" is at ${block.time} for dry, comfortable weather (${detail}).`
+        : `Outdoor task "${task.title}" is at ${block.time} despite the forecast (${detail}).`
+    );
+  }
+
+  if (rain.length) {
+    notes.push(`Rain is likely ${formatWindows(rain)}.`);
+  }
+
+  let commuteAlert: CommuteAlert | null = null;
+  if (rain.length && isExposedCommute(commuteMode)) {
+    commuteAlert = { mode: commuteMode, rain: rain.map((w) => `${formatTime(w.start)}-${formatTime(w.end)}`) };
+    notes.push(`You ${commuteMode === "bike" ? "cycle" : "walk"} to get around: pack rain gear or pick another way to travel ${formatWindows(rain)}.`);
+  }
+
+  return { weatherNotes: notes, commuteAlert };
+}
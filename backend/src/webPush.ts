@@ -0,0 +1,145 @@
+// src/webPush.ts
+// Web Push delivery with WebCrypto only: the payload is encrypted for the
+// browser's subscription keys (RFC 8291, aes128gcm) and the request is signed
+// with the server's VAPID key (RFC 8292) so the push service knows who sent it.
+
+// What the browser's PushManager.subscribe() returns, as JSON
+export interface PushSubscription {
+  endpoint: string;
+  keys: { p256dh: string; auth: string };
+}
+
+// Base64url P-256 key pair, e.g. from `npx web-push generate-vapid-keys`
+export interface VapidKeys {
+  publicKey: string; // uncompressed point, 65 bytes
+  privateKey: string; // private scalar, 32 bytes
+  subject: string; // mailto: or https: contact for the push service
+}
+
+// How long the push service keeps a message for an offline browser, in seconds
+const PUSH_TTL = 60 * 60;
+
+// Records are never split: one record holds the whole payload
+const RECORD_SIZE = 4096;
+
+const encoder = new TextEncoder();
+
+// Helper: base64url without padding, as Web Push and JWTs use it
+export function toBase64Url(bytes: Uint8Array): string {
+  let binary = "";
+  bytes.forEach((byte) => (binary += String.fromCharCode(byte)));
+  return btoa(binary).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+}
+
+export function fromBase64Url(text: string): Uint8Array {
+  const binary = atob(text.replace(/-/g, "+").replace(/_/g, "/").padEnd(Math.ceil(text.length / 4) * 4, "="));
+  return Uint8Array.from(binary, (char) => char.charCodeAt(0));
+}
+
+function concat(...parts: Uint8Array[]): Uint8Array {
+  const out = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    out.set(part, offset);
+    offset += part.length;
+  }
+  return out;
+}
+
+// Helper: HKDF-SHA-256 extract and expand in one step
+async function hkdf(salt: Uint8Array, ikm: Uint8Array, info: Uint8Array, length: number): Promise<Uint8Array> {
+  const key = await crypto.subtle.importKey("raw", ikm, "HKDF", false, ["deriveBits"]);
+  const bits = await crypto.subtle.deriveBits({ name: "HKDF", hash: "SHA-256", salt, info }, key, length * 8);
+  return new Uint8Array(bits);
+}
+
+/** Encrypt `payload` for one subscription: the aes128gcm body of RFC 8188 with the keys of RFC 8291. */
+export async function encryptPayload(subscription: PushSubscription, payload: string): Promise<Uint8Array> {
+  const clientPublic = fromBase64Url(subscription.keys.p256dh);
+  const authSecret = fromBase64Url(subscription.keys.auth);
+  if (clientPublic.length !== 65 || authSecret.length !== 16) {
+    throw new Error("Push subscription keys are malformed");
+  }
+
+  const clientKey = await crypto.subtle.importKey("raw", clientPublic, { name: "ECDH", namedCurve: "P-256" }, false, []);
+  const serverKeys = await crypto.subtle.generateKey({ name: "ECDH", namedCurve: "P-256" }, true, ["deriveBits"]) as CryptoKeyPair;
+  const serverPublic = new Uint8Array(await crypto.subtle.exportKey("raw", serverKeys.publicKey) as ArrayBuffer);
+  const sharedSecret = new Uint8Array(
+    await crypto.subtle.deriveBits({ name: "ECDH", public: clientKey } as any, serverKeys.privateKey, 256)
+  );
+
+  const ikm = await hkdf(authSecret, sharedSecret, concat(encoder.encode("WebPush: info\0"), clientPublic, serverPublic), 32);
+  const salt = crypto.getRandomValues(new Uint8Array(16));
+  const contentKey = await hkdf(salt, ikm, encoder.encode("Content-Encoding: aes128gcm\0"), 16);
+  const nonce = await hkdf(salt, ikm, encoder.encode("Content-Encoding: nonce\0"), 12);
+
+  // A single, final record: the payload followed by the 0x02 delimiter
+  const plaintext = concat(encoder.encode(payload), new Uint8Array([2]));
+  if (plaintext.length + 16 > RECORD_SIZE) {
+    throw new Error("Push payload is too large");
+  }
+  const aesKey = await crypto.subtle.importKey("raw", contentKey, "AES-GCM", false, ["encrypt"]);
+  const ciphertext = new Uint8Array(await crypto.subtle.encrypt({ name: "AES-GCM", iv: nonce }, aesKey, plaintext));
+
+  const header = new Uint8Array(21);
+  header.set(salt);
+  new DataView(header.buffer).setUint32(16, RECORD_SIZE);
+  header[20] = serverPublic.length;
+  return concat(header, serverPublic, ciphertext);
+}
+
+/** The Authorization header value for a push to `endpoint`: a VAPID JWT valid for 12 hours. */
+export async function vapidAuthorization(endpoint: string, vapid: VapidKeys, now = Date.now()): Promise<string> {
+  const publicKey = fromBase64Url(vapid.publicKey);
+  if (publicKey.length !== 65 || publicKey[0] !== 4) {
+    throw new Error("VAPID_PUBLIC_KEY is not an uncompressed P-256 public key");
+  }
+  const signingKey = await crypto.subtle.importKey(
+    "jwk",
+    {
+      kty: "EC",
+      crv: "P-256",
+      x: toBase64Url(publicKey.slice(1, 33)),
+      y: toBase64Url(publicKey.slice(33)),
+      d: vapid.privateKey,
+    },
+    { name: "ECDSA", namedCurve: "P-256" },
+    false,
+    ["sign"]
+  );
+
+  const encode = (value: object) => toBase64Url(encoder.encode(JSON.stringify(value)));
+  const unsigned = `${encode({ typ: "JWT", alg: "ES256" })}.${encode({
+    aud: new URL(endpoint).origin,
+    exp: Math.floor(now / 1000) + 12 * 60 * 60,
+    sub: vapid.subject,
+  })}`;
+  const signature = await crypto.subtle.sign({ name: "ECDSA", hash: "SHA-256" }, signingKey, encoder.encode(unsigned));
+  return `vapid t=${unsigned}.${toBase64Url(new Uint8Array(signature))}, k=${vapid.publicKey}`;
+}
+
+/**
+ * Send `payload` to one subscription. Resolves to false when the push service
+ * says the subscription no longer exists (404 or 410), so the caller can drop
+ * it; throws on any other failure.
+ */
+export async function sendWebPush(subscription: PushSubscription, payload: string, vapid: VapidKeys): Promise<boolean> {
+  const res = await fetch(subscription.endpoint, {
+    method: "POST",
+    headers: {
+      Authorization: await vapidAuthorization(subscription.endpoint, vapid),
+      "Content-Encoding": "aes128gcm",
+      "Content-Type": "application/octet-stream",
+      TTL: String(PUSH_TTL),
+      Urgency: "high",
+    },
+    body: await encryptPayload(subscription, payload),
+  });
+  if (res.status === 404 || res.status === 410) {
+    return false;
+  }
+  if (!res.ok) {
+    throw new Error(`Push service error: ${res.status}`);
+  }
+  return true;
+}
@@ -0,0 +1,52 @@
+import { describe, expect, it } from "vitest";
+import { parseCsv, toCsv } from "../src/csv";
+
+describe("parseCsv", () => {
+  it("reads quoted fields with commas, doubled quotes and line breaks", () => {
+    const records = parseCsv('title,notes\r\n"Call Bob, then Ann","say ""hi""\nand bye"\r\nEmail,\r\n');
+
+    expect(records).toEqual([
+      { line: 1, cells: ["title", "notes"] },
+      { line: 2, cells: ["Call Bob, then Ann", 'say "hi"\nand bye'] },
+      { line: 4, cells: ["Email", ""] },
+    ]);
+  });
+
+  it("skips a byte order mark and blank lines, and allows a missing final newline", () => {
+    const records = parseCsv("\uFEFFtitle\n\nWrite\r\n\r\nRead");
+
+    expect(records.map((record) => record.cells)).toEqual([["title"], ["Write"], ["Read"]]);
+    expect(records.map((record) => record.line)).toEqual([1, 3, 5]);
+  });
+
+  it("keeps empty and quoted-empty cells", () => {
+    expect(parseCsv('a,,""\n')[0].cells).toEqual(["a", "", ""]);
+  });
+
+  it("throws on a quote that is never closed, naming its line", () => {
+    expect(() => parseCsv('title\nWrite\n"Read,\nmore')).toThrow("Unclosed quote starting on line 3");
+  });
+});
+
+describe("toCsv", () => {
+  it("quotes only cells that need it and ends lines with CRLF", () => {
+    const text = toCsv([
+      ["title", "dependsOn"],
+      ['Say "hi", then leave', "1;2"],
+      ["Two\nlines", null],
+    ]);
+
+    expect(text).toBe('title,dependsOn\r\n"Say ""hi"", then leave",1;2\r\n"Two\nlines",\r\n');
+  });
+
+  it("defuses cells a spreadsheet would run as formulas", () => {
+    expect(toCsv([["=SUM(A1:A9)", "+1", "-2", "@cmd", "safe"]])).toBe("'=SUM(A1:A9),'+1,'-2,'@cmd,safe\r\n");
+    expect(toCsv([['=HYPERLINK("x")']])).toBe(`"'=HYPERLINK(""x"")"\r\n`);
+  });
+
+  it("round trips through parseCsv", () => {
+    const rows = [["title", "notes"], ['a "quoted", multi\r\nline cell', ""], ["plain", "x"]];
+
+    expect(parseCsv(toCsv(rows)).map((record) => record.cells)).toEqual(rows);
+  });
+});
@@ -0,0 +1,95 @@
+import { describe, expect, it } from "vitest";
+import { busyBlocksOn, parseCalendar, planToEvents } from "../src/ics";
+import { planDay } from "../src/scheduler";
+import { validatePlan } from "../src/planValidator";
+import { stampBlocks } from "../src/planSchema";
+
+// An .ics file with the given VEVENT bodies
+const calendar = (...events: string[]) =>
+  ["BEGIN:VCALENDAR", "VERSION:2.0", ...events.map((event) => `BEGIN:VEVENT\r\n${event}\r\nEND:VEVENT`), "END:VCALENDAR"].join("\r\n");
+
+describe("planToEvents", () => {
+  const prefs = { wake_time: "09:00", sleep_time: "23:00", break_style: "52-17", meals: [] };
+  const tasks = [
+    { id: 1, title: "Write report", duration_minutes: 90, importance: "high" },
+    { id: 2, title: "Email", duration_minutes: 20, importance: "low" },
+  ];
+  const uidsOf = (plan: any) =>
+    new Map(planToEvents("user_a", "2026-10-19", plan, "UTC").map((event) => [`${event.summary} ${event.start.toISOString()}`, event.uid]));
+
+  it("gives a regenerated plan the same UIDs", () => {
+    const first = stampBlocks(planDay(prefs, tasks).plan, "2026-10-19", "UTC");
+    const again = stampBlocks(planDay(prefs, tasks).plan, "2026-10-19", "UTC");
+
+    expect(again.schedule[0].id).not.toBe(first.schedule[0].id);
+    expect(uidsOf(again)).toEqual(uidsOf(first));
+    expect(new Set(uidsOf(first).values()).size).toBe(first.schedule.length);
+  });
+
+  it("keeps a task's UID when a re-plan moves it", () => {
+    const events = [{ title: "Call", start: 9 * 60, end: 9 * 60 + 30 }];
+    const before = stampBlocks(planDay(prefs, tasks).plan, "2026-10-19", "UTC");
+    const after = stampBlocks(planDay(prefs, tasks, { events }).plan, "2026-10-19", "UTC");
+    const uid = (plan: any, activity: string) =>
+      planToEvents("user_a", "2026-10-19", plan, "UTC").find((event) => event.summary === activity).uid;
+
+    expect(after.schedule.find((block) => block.activity === "Email").time).not.toBe(
+      before.schedule.find((block) => block.activity === "Email").time
+    );
+    expect(uid(after, "Email")).toBe(uid(before, "Email"));
+    expect(uid(after, "Email")).toBe("plan-2026-10-19-task-2-1.user_a@planmyday");
+  });
+
+  it("numbers the parts of a task and repeated blocks", () => {
+    const plan = {
+      schedule: [
+        { time: "09:00", activity: "Write report (part 1 of 2)", duration: "52", type: "task", taskId: "1" },
+        { time: "09:52", activity: "Break", duration: "17", type: "break" },
+        { time: "10:09", activity: "Write report (part 2 of 2)", duration: "8", type: "task", taskId: "1" },
+        { time: "10:17", activity: "Break", duration: "17", type: "break" },
+      ],
+    };
+    const uids = planToEvents("user_a", "2026-10-19", plan, "UTC").map((event) => event.uid);
+
+    expect(uids).toEqual([
+      "plan-2026-10-19-task-1-1.user_a@planmyday",
+      "plan-2026-10-19-break-break-1.user_a@planmyday",
+      "plan-2026-10-19-task-1-2.user_a@planmyday",
+      "plan-2026-10-19-break-break-2.user_a@planmyday",
+    ]);
+  });
+});
+
+describe("busyBlocksOn", () => {
+  it("leaves out all-day events that aren't marked busy, and still produces a plan", () => {
+    const events = parseCalendar(
+      calendar(
+        "UID:birthday\r\nSUMMARY:Ana's birthday\r\nDTSTART;VALUE=DATE:20261019\r\nDTEND;VALUE=DATE:20261020",
+        "UID:standup\r\nSUMMARY:Standup\r\nDTSTART:20261019T100000Z\r\nDTEND:20261019T103000Z"
+      )
+    );
+    const busy = busyBlocksOn(events, "2026-10-19", "UTC");
+    expect(busy).toEqual([{ title: "Standup", start: 600, end: 630 }]);
+
+    const prefs = { wake_time: "09:00", sleep_time: "23:00", meals: [] };
+    const tasks = [{ id: 1, title: "Write report", duration_minutes: 45 }];
+    const { plan, skipped } = planDay(prefs, tasks, { events: busy });
+    expect(skipped).toEqual([]);
+    expect(plan.schedule.map((block) => block.activity)).toEqual(["Write report", "Standup"]);
+    expect(validatePlan(plan, prefs, tasks)).toEqual([]);
+  });
+
+  it("blocks the day for all-day events marked busy", () => {
+    const events = parseCalendar(
+      calendar(
+        "UID:offsite\r\nSUMMARY:Offsite\r\nDTSTART;VALUE=DATE:20261019\r\nTRANSP:OPAQUE",
+        "UID:leave\r\nSUMMARY:Leave\r\nDTSTART;VALUE=DATE:20261019\r\nX-MICROSOFT-CDO-BUSYSTATUS:OOF"
+      )
+    );
+
+    expect(busyBlocksOn(events, "2026-10-19", "UTC")).toEqual([
+      { title: "Offsite", start: 0, end: 1440 },
+      { title: "Leave", start: 0, end: 1440 },
+    ]);
+  });
+});
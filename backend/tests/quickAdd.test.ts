@@ -0,0 +1,77 @@
+import { describe, expect, it } from "vitest";
+import { parseQuickAdd } from "../src/quickAdd";
+
+// A Monday
+const today = "2026-10-19";
+
+describe("parseQuickAdd", () => {
+  it("reads every field from a full line", () => {
+    const { fields, ambiguous } = parseQuickAdd("review Q3 deck 90m high priority tomorrow before 3pm", today);
+
+    expect(fields.title.value).toBe("review Q3 deck");
+    expect(fields.duration).toMatchObject({ value: 90, source: "text" });
+    expect(fields.importance.value).toBe("high");
+    expect(fields.date.value).toBe("2026-10-20");
+    expect(fields.deadline).toMatchObject({ value: "15:00", confidence: 0.9 });
+    expect(fields.fixedStart).toMatchObject({ value: null, source: "default" });
+    expect(ambiguous).toEqual([]);
+  });
+
+  it("reads a bare 1 to 7 as afternoon and says it guessed", () => {
+    const { fields, ambiguous } = parseQuickAdd("call mum at 3", today);
+
+    expect(fields.fixedStart).toMatchObject({ value: "15:00", confidence: 0.6 });
+    expect(ambiguous).toEqual(['"at 3" has no am/pm']);
+    expect(parseQuickAdd("call mum at 9", today).fields.fixedStart.value).toBe("09:00");
+  });
+
+  it("is sure of times with am/pm, 24-hour times and noon", () => {
+    const read = (text: string) => parseQuickAdd(text, today).fields.fixedStart;
+
+    expect(read("standup at 9:30am")).toMatchObject({ value: "09:30", confidence: 0.9 });
+    expect(read("standup at 12am")).toMatchObject({ value: "00:00", confidence: 0.9 });
+    expect(read("standup at 15:00")).toMatchObject({ value: "15:00", confidence: 0.9 });
+    expect(read("standup at 05:00")).toMatchObject({ value: "05:00", confidence: 0.9 });
+    expect(read("lunch @ noon")).toMatchObject({ value: "12:00", confidence: 0.9 });
+  });
+
+  it("counts weekdays from tomorrow, and flags \"next friday\"", () => {
+    expect(parseQuickAdd("pay rent friday", today).fields.date).toMatchObject({ value: "2026-10-23", confidence: 0.9 });
+    expect(parseQuickAdd("pay rent monday", today).fields.date.value).toBe("2026-10-26");
+
+    const { fields, ambiguous } = parseQuickAdd("pay rent next friday", today);
+    expect(fields.title.value).toBe("pay rent");
+    expect(fields.date).toMatchObject({ value: "2026-10-23", confidence: 0.6 });
+    expect(ambiguous).toEqual(['"next friday" could mean this coming friday or the one after']);
+  });
+
+  it("doesn't read a day of the month or a duration as a clock time", () => {
+    const byDate = parseQuickAdd("file taxes by 14 march", today).fields;
+    expect(byDate.deadline.value).toBeNull();
+    expect(byDate.date.value).toBe("2027-03-14");
+
+    const byOrdinal = parseQuickAdd("send invoice by 3rd of march", today).fields;
+    expect(byOrdinal.deadline.value).toBeNull();
+    expect(byOrdinal.date.value).toBe("2027-03-03");
+
+    const forHours = parseQuickAdd("review at 3 hours", today).fields;
+    expect(forHours.fixedStart.value).toBeNull();
+    expect(forHours.duration.value).toBe(180);
+    expect(forHours.title.value).toBe("review");
+  });
+
+  it("takes a clock time followed by punctuation", () => {
+    const { fields } = parseQuickAdd("submit form by 5pm, urgent", today);
+
+    expect(fields.deadline.value).toBe("17:00");
+    expect(fields.importance.value).toBe("high");
+    expect(fields.title.value).toBe("submit form");
+  });
+
+  it("reports a second phrase for the same field", () => {
+    const { fields, ambiguous } = parseQuickAdd("dentist tomorrow friday", today);
+
+    expect(fields.date).toMatchObject({ value: "2026-10-20", confidence: 0.5 });
+    expect(ambiguous).toEqual(['Found more than one date: "tomorrow" and "friday"']);
+  });
+});
@@ -0,0 +1,70 @@
+import { describe, expect, it } from "vitest";
+import { describeRule, formatRRule, occursOn, parseRRule, recurrenceFromInput } from "../src/recurrence";
+
+// The dates in `dates` on which the series starting on `start` occurs
+const occurrences = (rule: string, start: string, dates: string[]) =>
+  dates.filter((date) => occursOn(parseRRule(rule), start, date));
+
+describe("parseRRule", () => {
+  it("reads a rule with an RRULE: prefix, in any case, and formats it back", () => {
+    const rule = parseRRule("RRULE:freq=weekly;interval=2;byday=fr,mo,mo;until=20251231T235959Z");
+
+    expect(rule).toEqual({ freq: "WEEKLY", interval: 2, byDay: [1, 5], until: "2025-12-31" });
+    expect(formatRRule(rule)).toBe("FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,FR;UNTIL=20251231");
+  });
+
+  it("refuses parts it would have to ignore", () => {
+    expect(() => parseRRule("FREQ=MONTHLY;BYMONTHDAY=15")).toThrow("Unsupported recurrence rule parts: BYMONTHDAY");
+    expect(() => parseRRule("FREQ=MONTHLY;BYDAY=-1FR")).toThrow("Invalid BYDAY value: -1FR");
+    expect(() => parseRRule("FREQ=HOURLY")).toThrow("Recurrence FREQ must be one of");
+    expect(() => parseRRule("FREQ=DAILY;INTERVAL=0")).toThrow("INTERVAL");
+    expect(() => parseRRule("FREQ=DAILY;COUNT=1.5")).toThrow("COUNT");
+  });
+});
+
+describe("occursOn", () => {
+  it("repeats every few days from the start date, and never before it", () => {
+    expect(occurrences("FREQ=DAILY;INTERVAL=3", "2025-01-01", ["2024-12-29", "2025-01-01", "2025-01-03", "2025-01-04", "2025-01-07"]))
+      .toEqual(["2025-01-01", "2025-01-04", "2025-01-07"]);
+  });
+
+  it("counts every other week from the Monday of the start week", () => {
+    // 2025-01-08 is a Wednesday; the Sunday after it is still in its week
+    const dates = ["2025-01-08", "2025-01-12", "2025-01-13", "2025-01-19", "2025-01-20", "2025-01-26"];
+    expect(occurrences("FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,SU", "2025-01-08", dates)).toEqual(["2025-01-12", "2025-01-20", "2025-01-26"]);
+  });
+
+  it("repeats weekly on the start date's weekday without BYDAY", () => {
+    expect(occurrences("FREQ=WEEKLY", "2025-01-08", ["2025-01-08", "2025-01-09", "2025-01-15"])).toEqual(["2025-01-08", "2025-01-15"]);
+  });
+
+  it("includes the UNTIL date", () => {
+    expect(occurrences("FREQ=DAILY;UNTIL=20250110T235959Z", "2025-01-08", ["2025-01-10", "2025-01-11"])).toEqual(["2025-01-10"]);
+  });
+
+  it("stops after COUNT occurrences, counting only matching days", () => {
+    const dates = ["2025-01-06", "2025-01-07", "2025-01-08", "2025-01-13", "2025-01-15"];
+    expect(occurrences("FREQ=WEEKLY;BYDAY=MO,WE;COUNT=3", "2025-01-06", dates)).toEqual(["2025-01-06", "2025-01-08", "2025-01-13"]);
+  });
+
+  it("skips months without the start date's day", () => {
+    expect(occurrences("FREQ=MONTHLY", "2025-01-31", ["2025-02-28", "2025-03-31", "2025-04-30", "2025-05-31"]))
+      .toEqual(["2025-03-31", "2025-05-31"]);
+    expect(occurrences("FREQ=YEARLY", "2024-02-29", ["2025-02-28", "2025-03-01", "2028-02-29"])).toEqual(["2028-02-29"]);
+  });
+});
+
+describe("recurrenceFromInput", () => {
+  it("builds rules from the friendly form", () => {
+    expect(recurrenceFromInput({ frequency: "weekly", days: ["Thursday", "mon"] })).toEqual({ freq: "WEEKLY", interval: 1, byDay: [1, 4] });
+    expect(recurrenceFromInput({ frequency: "every_n_days", interval: 2, until: "2025-06-30" }))
+      .toEqual({ freq: "DAILY", interval: 2, byDay: [], until: "2025-06-30" });
+    expect(describeRule(recurrenceFromInput({ frequency: "weekdays" }))).toBe("Every weekday");
+  });
+
+  it("explains what is wrong with bad input", () => {
+    expect(() => recurrenceFromInput({ frequency: "weekly", days: [] })).toThrow("non-empty days list");
+    expect(() => recurrenceFromInput({ frequency: "weekly", days: ["someday"] })).toThrow("Invalid weekday: someday");
+    expect(() => recurrenceFromInput({ frequency: "daily", until: "31/12/2025" })).toThrow("YYYY-MM-DD");
+  });
+});
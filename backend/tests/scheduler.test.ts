@@ -0,0 +1,44 @@
+import { describe, expect, it } from "vitest";
+import { planDay } from "../src/scheduler";
+import { validatePlan } from "../src/planValidator";
+
+const prefs = { wake_time: "09:00", sleep_time: "23:00", break_style: "52-17", meals: [] };
+
+describe("planDay", () => {
+  it("keeps the rest of an event that straddles wake time", () => {
+    const events = [{ title: "Early flight", start: 8 * 60, end: 10 * 60 }];
+    const tasks = [{ id: 1, title: "Write report", duration_minutes: 30 }];
+    const { plan, skipped } = planDay(prefs, tasks, { events });
+
+    expect(skipped).toEqual([]);
+    expect(plan.schedule[0]).toMatchObject({ time: "09:00", activity: "Early flight", duration: "60", type: "event" });
+    expect(plan.schedule[1]).toMatchObject({ time: "10:00", activity: "Write report", type: "task" });
+    expect(validatePlan(plan, prefs, tasks)).toEqual([]);
+  });
+
+  it("keeps the rest of an event that is running when re-planning", () => {
+    const events = [{ title: "Standup", start: 13 * 60 + 45, end: 14 * 60 + 15 }];
+    const tasks = [{ id: 1, title: "Write report", duration_minutes: 30 }];
+    const { plan } = planDay(prefs, tasks, { events, from: "14:00" });
+
+    expect(plan.schedule[0]).toMatchObject({ time: "14:00", activity: "Standup", duration: "15", type: "event" });
+    expect(plan.schedule[1]).toMatchObject({ time: "14:15", activity: "Write report" });
+  });
+
+  it("cuts a meal short when re-planning during it", () => {
+    const { plan } = planDay({ ...prefs, meals: [{ name: "Lunch", time: "12:30", duration: 45 }] }, [], { from: "13:00" });
+
+    expect(plan.schedule).toEqual([expect.objectContaining({ time: "13:00", activity: "Lunch", duration: "15", type: "meal" })]);
+  });
+
+  it("keeps a pinned task that is still running, and skips one that is over", () => {
+    const tasks = [
+      { id: 1, title: "Call with Sam", duration_minutes: 60, fixed_start: "13:30" },
+      { id: 2, title: "Dentist", duration_minutes: 30, fixed_start: "11:00" },
+    ];
+    const { plan, skipped } = planDay(prefs, tasks, { from: "14:00" });
+
+    expect(plan.schedule).toEqual([expect.objectContaining({ time: "13:30", activity: "Call with Sam", taskId: "1" })]);
+    expect(skipped).toEqual([expect.objectContaining({ taskId: "2" })]);
+  });
+});
@@ -8,6 +8,26 @@ declare namespace Cloudflare {
 		OPENWEATHER_KEY: string;
 		NASA_KEY: string;
 		CLERK_SECRET_KEY: string;
+		LLM_PROVIDER?: string;
+		LLM_MODEL?: string;
+		LLM_BASE_URL?: string;
+		LLM_API_KEY?: string;
+		LLM_MAX_TOKENS?: string;
+		LLM_TEMPERATURE?: string;
+		LLM_MOCK_RESPONSES?: string;
+		AI?: Ai;
+		WEATHER_PROVIDER?: string;
+		WEATHER_FIXTURE?: string;
+		ADMIN_TOKEN?: string;
+		AUTO_MIGRATE?: string;
+		RATE_LIMITS?: string;
+		CLERK_WEBHOOK_SIGNING_SECRET?: string;
+		VAPID_PUBLIC_KEY?: string;
+		VAPID_PRIVATE_KEY?: string;
+		VAPID_SUBJECT?: string;
+		EMAIL_RELAY_URL?: string;
+		EMAIL_RELAY_TOKEN?: string;
+		REMINDER_STUB_URL?: string;
 	}
 }
 interface Env extends Cloudflare.Env {}